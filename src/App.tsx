@@ -31,7 +31,7 @@ function App() {
       {windows.map((window) => (
         <Window
           key={window.id}
-          window={window}
+          window={{ ...window, props: { ...window.props, onOpenApp: handleOpenApp } }}
           onClose={() => closeWindow(window.id)}
           onMinimize={() => minimizeWindow(window.id)}
           onMaximize={() => maximizeWindow(window.id)}
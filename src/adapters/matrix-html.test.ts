@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { extractMentions, markdownToHtml, sanitizeMatrixHtml } from './matrix-html';
+
+describe('sanitizeMatrixHtml', () => {
+  it('drops scripts and other dangerous elements with their content', () => {
+    expect(sanitizeMatrixHtml('hi<script>alert(1)</script><style>p{}</style><iframe src="https://x"></iframe>'))
+      .toBe('hi');
+  });
+
+  it('unwraps disallowed tags but keeps their text', () => {
+    expect(sanitizeMatrixHtml('<section><b>bold</b> text</section>')).toBe('<b>bold</b> text');
+  });
+
+  it('removes disallowed attributes', () => {
+    expect(sanitizeMatrixHtml('<p onclick="alert(1)" style="color: red" class="x">text</p>')).toBe('<p>text</p>');
+    expect(sanitizeMatrixHtml('<code class="language-ts evil">x</code>')).toBe('<code class="language-ts">x</code>');
+  });
+
+  it('turns validated colours into inline styles and drops invalid ones', () => {
+    expect(sanitizeMatrixHtml('<font color="#ff0000">red</font>'))
+      .toBe('<font color="#ff0000" style="color: #ff0000">red</font>');
+    expect(sanitizeMatrixHtml('<span data-mx-color="red;background:url(x)">text</span>')).toBe('<span>text</span>');
+  });
+
+  it('keeps safe links and opens them in a new tab', () => {
+    expect(sanitizeMatrixHtml('<a href="https://matrix.org">link</a>'))
+      .toBe('<a href="https://matrix.org" target="_blank" rel="noopener noreferrer">link</a>');
+  });
+
+  it('removes javascript: and data: hrefs', () => {
+    expect(sanitizeMatrixHtml('<a href="javascript:alert(1)">link</a>')).toBe('<a>link</a>');
+    expect(sanitizeMatrixHtml('<a href=" JavaScript:alert(1)">link</a>')).toBe('<a>link</a>');
+    expect(sanitizeMatrixHtml('<a href="data:text/html,<script>alert(1)</script>">link</a>')).toBe('<a>link</a>');
+  });
+
+  it('replaces mxc:// images with their alt text and drops other images', () => {
+    expect(sanitizeMatrixHtml('<img src="mxc://example.org/abc" alt=":cat:"> hi')).toBe(':cat: hi');
+    expect(sanitizeMatrixHtml('<img src="mxc://example.org/abc"> hi')).toBe(' hi');
+    expect(sanitizeMatrixHtml('<img src="https://tracker.example/pixel.png" alt="x"> hi')).toBe(' hi');
+  });
+
+  it('strips disallowed tags at every nesting level', () => {
+    expect(sanitizeMatrixHtml('<div><section><b><script>x</script>a</b><article><i onmouseover="x">b</i></article></section></div>'))
+      .toBe('<div><b>a</b><i>b</i></div>');
+  });
+
+  it('drops reply fallbacks', () => {
+    expect(sanitizeMatrixHtml('<mx-reply><blockquote>quoted</blockquote></mx-reply>reply')).toBe('reply');
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('returns null for plain text', () => {
+    expect(markdownToHtml('just text')).toBeNull();
+  });
+
+  it('renders inline formatting and escapes HTML', () => {
+    expect(markdownToHtml('**bold** <b>not html</b>')).toBe('<strong>bold</strong> &lt;b&gt;not html&lt;/b&gt;');
+  });
+
+  it('leaves code spans alone', () => {
+    expect(markdownToHtml('`**x**`')).toBe('<code>**x**</code>');
+  });
+
+  it('only links allowed schemes', () => {
+    expect(markdownToHtml('[ok](https://matrix.org)')).toBe('<a href="https://matrix.org">ok</a>');
+    expect(markdownToHtml('[bad](javascript:alert(1))')).toBeNull();
+  });
+
+  it('renders fenced code blocks with a language class', () => {
+    expect(markdownToHtml('```ts\nconst a = 1 < 2;\n```'))
+      .toBe('<pre><code class="language-ts">const a = 1 &lt; 2;\n</code></pre>');
+  });
+
+  it('wraps paragraphs when there are several blocks', () => {
+    expect(markdownToHtml('# Title\n\ntext')).toBe('<h1>Title</h1><p>text</p>');
+  });
+});
+
+describe('extractMentions', () => {
+  it('locates pills in the body in document order', () => {
+    const html = 'ask <a href="https://matrix.to/#/@bob:example.org">@Bob</a> or <a href="https://matrix.to/#/@alice:example.org">@Alice</a>';
+    expect(extractMentions(html, 'ask @Bob or @Alice, @Alice')).toEqual([
+      { type: 'user', id: '@bob:example.org', text: '@Bob', start: 4 },
+      { type: 'user', id: '@alice:example.org', text: '@Alice', start: 12 },
+    ]);
+  });
+
+  it('reads room pills and ignores other links', () => {
+    const html = '<a href="https://matrix.to/#/%23dev%3Aexample.org">#dev</a> <a href="https://matrix.org">site</a>';
+    expect(extractMentions(html, '#dev site')).toEqual([
+      { type: 'room', id: '#dev:example.org', text: '#dev', start: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Matrix rich text - Markdown composing and sanitizing of org.matrix.custom.html
+ * The sanitizer follows the allow-list from the Matrix spec
+ * https://spec.matrix.org/v1.11/client-server-api/#mroommessage-msgtypes
+ */
+
+import type { ChatMention } from '@/kernel/ports/chat';
+
+export const MATRIX_HTML_FORMAT = 'org.matrix.custom.html' as const;
+
+// Tags and attributes the spec allows; anything else is unwrapped or dropped
+const ALLOWED_TAGS = new Set([
+  'font', 'del', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'p', 'a', 'ul', 'ol',
+  'sup', 'sub', 'li', 'b', 'i', 'u', 'strong', 'em', 's', 'strike', 'code', 'hr', 'br',
+  'div', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'caption', 'pre', 'span', 'details', 'summary',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  font: ['data-mx-bg-color', 'data-mx-color', 'color'],
+  span: ['data-mx-bg-color', 'data-mx-color', 'data-mx-spoiler'],
+  a: ['href'],
+  ol: ['start'],
+  code: ['class'],
+};
+
+// Elements removed together with their content
+const DROPPED_TAGS = new Set(['mx-reply', 'script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template']);
+
+const ALLOWED_LINK_SCHEMES = ['https:', 'http:', 'ftp:', 'mailto:', 'magnet:'];
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const LANGUAGE_CLASS_PATTERN = /^language-[a-zA-Z0-9_+#-]+$/;
+const MAX_DEPTH = 100;
+
+/**
+ * Strip a formatted body down to the spec allow-list
+ * Returns HTML that is safe to render with innerHTML
+ */
+export function sanitizeMatrixHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  sanitizeChildren(doc.body, 0);
+  return doc.body.innerHTML;
+}
+
+function sanitizeChildren(parent: Element, depth: number): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+
+    if (child.nodeType !== Node.ELEMENT_NODE || depth >= MAX_DEPTH) {
+      child.remove();
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      continue;
+    }
+
+    // Inline images would need an authenticated fetch, so mxc:// images fall back to their alt text
+    // Anything else is not allowed by the spec and would load from a third party
+    if (tag === 'img') {
+      const src = element.getAttribute('src') || '';
+      const alt = element.getAttribute('alt') || element.getAttribute('title') || '';
+      if (src.startsWith('mxc://') && alt) {
+        element.replaceWith(alt);
+      } else {
+        element.remove();
+      }
+      continue;
+    }
+
+    // Sanitize first so unwrapped content is already clean
+    sanitizeChildren(element, depth + 1);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      continue;
+    }
+
+    sanitizeAttributes(element, tag);
+  }
+}
+
+function sanitizeAttributes(element: Element, tag: string): void {
+  const allowed = ALLOWED_ATTRIBUTES[tag] || [];
+
+  for (const { name, value } of Array.from(element.attributes)) {
+    if (!allowed.includes(name)) {
+      element.removeAttribute(name);
+      continue;
+    }
+
+    if ((name === 'data-mx-color' || name === 'data-mx-bg-color' || name === 'color') && !COLOR_PATTERN.test(value)) {
+      element.removeAttribute(name);
+    } else if (name === 'class') {
+      const classes = value.split(/\s+/).filter(className => LANGUAGE_CLASS_PATTERN.test(className));
+      if (classes.length > 0) {
+        element.setAttribute('class', classes.join(' '));
+      } else {
+        element.removeAttribute('class');
+      }
+    } else if (name === 'start' && !/^\d+$/.test(value)) {
+      element.removeAttribute(name);
+    }
+  }
+
+  // Colours are applied as inline styles we build ourselves from validated values
+  const color = element.getAttribute('data-mx-color') || element.getAttribute('color');
+  const backgroundColor = element.getAttribute('data-mx-bg-color');
+  const styles = [
+    color ? `color: ${color}` : '',
+    backgroundColor ? `background-color: ${backgroundColor}` : '',
+  ].filter(Boolean);
+  if (styles.length > 0) {
+    element.setAttribute('style', styles.join('; '));
+  }
+
+  if (tag === 'a') {
+    const href = element.getAttribute('href');
+    if (!href || !isAllowedLink(href)) {
+      element.removeAttribute('href');
+    } else {
+      element.setAttribute('target', '_blank');
+      element.setAttribute('rel', 'noopener noreferrer');
+    }
+  }
+}
+
+function isAllowedLink(href: string): boolean {
+  try {
+    return ALLOWED_LINK_SCHEMES.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const PERMALINK_PATTERN = /^https:\/\/matrix\.to\/#\/([^/?]+)/;
+
+/**
+ * Mention pills in a sanitized formatted body, located in the plain-text body
+ * Pills are matched in document order, so a repeated name maps to the right occurrence
+ */
+export function extractMentions(html: string, body: string): ChatMention[] {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const mentions: ChatMention[] = [];
+  let cursor = 0;
+
+  for (const link of Array.from(doc.body.querySelectorAll('a[href]'))) {
+    const id = parsePermalink(link.getAttribute('href') || '');
+    const text = link.textContent || '';
+    if (!id || !text) continue;
+
+    const start = body.indexOf(text, cursor);
+    if (start < 0) continue;
+
+    mentions.push({ type: id.startsWith('@') ? 'user' : 'room', id, text, start });
+    cursor = start + text.length;
+  }
+
+  return mentions;
+}
+
+function parsePermalink(href: string): string | null {
+  const match = href.match(PERMALINK_PATTERN);
+  if (!match) return null;
+
+  try {
+    const id = decodeURIComponent(match[1]);
+    return /^[@#!]/.test(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render inline Markdown on already-escaped text
+ * Code spans are cut out first so their content is left alone
+ */
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`\n]+)`/g, (_match, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  html = html
+    .replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (match, label: string, href: string) => {
+      // href is escaped text; decode &amp; for the scheme check only
+      return isAllowedLink(href.replace(/&amp;/g, '&')) ? `<a href="${href}">${label}</a>` : match;
+    })
+    .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/__([^_\n]+)__/g, '<strong>$1</strong>')
+    .replace(/(^|[^*\w])\*([^*\n]+)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^_\w])_([^_\n]+)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~([^~\n]+)~~/g, '<del>$1</del>')
+    .replace(/\|\|([^|\n]+)\|\|/g, '<span data-mx-spoiler>$1</span>');
+
+  // eslint-disable-next-line no-control-regex
+  return html.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => codeSpans[Number(index)]);
+}
+
+/**
+ * Convert composer Markdown to Matrix HTML
+ * Returns null when the text has no formatting, so the message can be sent as plain text
+ */
+export function markdownToHtml(text: string): string | null {
+  const lines = text.split('\n');
+  const blocks: { html: string; isParagraph: boolean }[] = [];
+  let paragraph: string[] = [];
+  let hasFormatting = false;
+
+  const pushBlock = (html: string) => {
+    hasFormatting = true;
+    blocks.push({ html, isParagraph: false });
+  };
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const html = paragraph.map(renderInline).join('<br />');
+      if (html !== paragraph.map(escapeHtml).join('<br />')) {
+        hasFormatting = true;
+      }
+      blocks.push({ html, isParagraph: true });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code block
+    const fence = line.match(/^```\s*([\w+#-]*)\s*$/);
+    if (fence) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !/^```\s*$/.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      const languageClass = fence[1] ? ` class="language-${fence[1]}"` : '';
+      pushBlock(`<pre><code${languageClass}>${escapeHtml(codeLines.join('\n'))}\n</code></pre>`);
+      continue;
+    }
+
+    // Headings
+    const heading = line.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      pushBlock(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    // Blockquote - consecutive quoted lines form one quote
+    if (/^>\s?/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && /^>\s?/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^>\s?/, ''));
+        i++;
+      }
+      i--;
+      pushBlock(`<blockquote>${quoted.map(renderInline).join('<br />')}</blockquote>`);
+      continue;
+    }
+
+    // Lists
+    const listMatch = line.match(/^\s*([-*+]|\d+\.)\s+/);
+    if (listMatch) {
+      flushParagraph();
+      const ordered = /\d/.test(listMatch[1]);
+      const itemPattern = ordered ? /^\s*\d+\.\s+/ : /^\s*[-*+]\s+/;
+      const items: string[] = [];
+      while (i < lines.length && itemPattern.test(lines[i])) {
+        items.push(`<li>${renderInline(lines[i].replace(itemPattern, ''))}</li>`);
+        i++;
+      }
+      i--;
+      const start = ordered ? parseInt(listMatch[1], 10) : 1;
+      const startAttribute = ordered && start !== 1 ? ` start="${start}"` : '';
+      pushBlock(ordered ? `<ol${startAttribute}>${items.join('')}</ol>` : `<ul>${items.join('')}</ul>`);
+      continue;
+    }
+
+    // A blank line ends the paragraph
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  // Nothing but escaping and line breaks - not worth a formatted body
+  if (!hasFormatting) return null;
+
+  // A lone paragraph is sent bare, like other clients do
+  if (blocks.length === 1) return blocks[0].html;
+  return blocks.map(block => block.isParagraph ? `<p>${block.html}</p>` : block.html).join('');
+}
@@ -0,0 +1,143 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import type { MatrixClient, Room } from 'matrix-js-sdk';
+import type { MatrixDriver } from '@/drivers/matrix/MatrixDriver';
+import type { ChatRoom } from '@/kernel/ports/chat';
+import { MatrixAdapter } from './matrix';
+
+const MY_USER_ID = '@me:example.org';
+
+const createRoom = (roomId: string, membership: 'join' | 'invite' | 'leave', inviterId?: string): Room => {
+  const inviter = inviterId ? { userId: inviterId, name: 'Alice', getMxcAvatarUrl: () => undefined } : null;
+  const myMembershipEvent = {
+    getSender: () => inviterId,
+    getTs: () => 1000,
+    getContent: () => ({ membership, is_direct: true }),
+  };
+
+  return {
+    roomId,
+    name: roomId,
+    getMyMembership: () => membership,
+    getLastActiveTimestamp: () => 0,
+    getJoinedMemberCount: () => 1,
+    getEventReadUpTo: () => null,
+    hasEncryptionStateEvent: () => false,
+    getCanonicalAlias: () => null,
+    getUnreadNotificationCount: () => 0,
+    isSpaceRoom: () => false,
+    getDMInviter: () => inviterId,
+    getJoinRule: () => 'invite',
+    getHistoryVisibility: () => 'shared',
+    getMember: (userId: string) => {
+      if (userId === MY_USER_ID) return { events: { member: myMembershipEvent } };
+      return userId === inviterId ? inviter : null;
+    },
+  } as unknown as Room;
+};
+
+const createAdapter = (rooms: Room[], sendEvent = vi.fn()) => {
+  const client = {
+    getRooms: () => rooms,
+    sendEvent,
+    makeTxnId: () => 'txn',
+    getUserId: () => MY_USER_ID,
+    getAccountData: () => undefined,
+  } as unknown as MatrixClient;
+
+  const unsubscribe = () => {};
+  const roomUpdateListeners: Array<(room: Room) => void> = [];
+  const driver = {
+    getClient: () => client,
+    getState: () => ({ connection: 'connected' }),
+    hasSyncStarted: () => true,
+    start: vi.fn(),
+    onMessage: () => unsubscribe,
+    onEventUpdate: () => unsubscribe,
+    onRoomUpdate: (callback: (room: Room) => void) => {
+      roomUpdateListeners.push(callback);
+      return unsubscribe;
+    },
+    onTyping: () => unsubscribe,
+    onReceipt: () => unsubscribe,
+    onStateChange: () => unsubscribe,
+  } as unknown as MatrixDriver;
+
+  const adapter = new MatrixAdapter(driver);
+  const emitRoomUpdate = (room: Room) => roomUpdateListeners.forEach(callback => callback(room));
+  return Object.assign(adapter, { emitRoomUpdate });
+};
+
+describe('MatrixAdapter.getRooms', () => {
+  it('lists an invite that is already pending at startup', async () => {
+    const adapter = createAdapter([
+      createRoom('!joined:example.org', 'join'),
+      createRoom('!invited:example.org', 'invite', '@alice:example.org'),
+    ]);
+
+    const rooms = await adapter.getRooms();
+    const invited = rooms.find(room => room.id === '!invited:example.org');
+
+    expect(rooms).toHaveLength(2);
+    expect(invited?.isJoined).toBe(false);
+    expect(invited?.invite).toMatchObject({
+      inviter: { id: '@alice:example.org', displayName: 'Alice' },
+      isDirect: true,
+    });
+    expect(invited?.type).toBe('direct');
+  });
+
+  it('leaves out rooms we left or declined', async () => {
+    const adapter = createAdapter([
+      createRoom('!joined:example.org', 'join'),
+      createRoom('!left:example.org', 'leave'),
+    ]);
+
+    const rooms = await adapter.getRooms();
+
+    expect(rooms.map(room => room.id)).toEqual(['!joined:example.org']);
+  });
+});
+
+describe('MatrixAdapter.onRoomUpdate', () => {
+  it('reports a declined invite as neither joined nor invited', () => {
+    const adapter = createAdapter([]);
+    const updates: ChatRoom[] = [];
+    adapter.onRoomUpdate(room => updates.push(room));
+
+    adapter.emitRoomUpdate(createRoom('!declined:example.org', 'leave', '@alice:example.org'));
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].isJoined).toBe(false);
+    expect(updates[0].invite).toBeUndefined();
+  });
+});
+
+describe('MatrixAdapter.sendMessage', () => {
+  it('links only the mention ranges tracked by the composer', async () => {
+    const sendEvent = vi.fn().mockResolvedValue({ event_id: '$event' });
+    const adapter = createAdapter([], sendEvent);
+
+    await adapter.sendMessage('!room:example.org', '@Alice meet @Alice', {
+      mentions: [{ type: 'user', id: '@alice:example.org', text: '@Alice', start: 12 }],
+    });
+
+    const content = sendEvent.mock.calls[0][2];
+    expect(content.body).toBe('@Alice meet @Alice');
+    expect(content.formatted_body).toBe('@Alice meet <a href="https://matrix.to/#/@alice:example.org">@Alice</a>');
+    expect(content['m.mentions']).toEqual({ user_ids: ['@alice:example.org'] });
+  });
+
+  it('ignores mentions whose range no longer holds their text', async () => {
+    const sendEvent = vi.fn().mockResolvedValue({ event_id: '$event' });
+    const adapter = createAdapter([], sendEvent);
+
+    await adapter.sendMessage('!room:example.org', 'hi @Alice', {
+      mentions: [{ type: 'user', id: '@alice:example.org', text: '@Alice', start: 0 }],
+    });
+
+    const content = sendEvent.mock.calls[0][2];
+    expect(content.formatted_body).toBeUndefined();
+    expect(content['m.mentions']).toEqual({});
+  });
+});
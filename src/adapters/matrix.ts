@@ -5,9 +5,62 @@
  * Stateless/pure as possible
  */
 
-import type { ChatPort, ChatMessage, ChatRoom, ChatUser } from '@/kernel/ports/chat';
-import type { MatrixDriver } from '@/drivers/matrix/MatrixDriver';
-import type { MatrixEvent, Room } from 'matrix-js-sdk';
+import type {
+  ChatPort,
+  ChatConnectionState,
+  ChatDecryptionFailure,
+  ChatHistoryVisibility,
+  ChatJoinRule,
+  ChatMedia,
+  ChatMention,
+  ChatMessage,
+  ChatMessagePage,
+  ChatMessageReference,
+  ChatMemberRole,
+  ChatPowerLevels,
+  ChatReaction,
+  ChatReadReceipt,
+  ChatReceiptEvent,
+  ChatRoom,
+  ChatRoomInvite,
+  ChatRoomMember,
+  ChatRoomSettings,
+  ChatRoomType,
+  ChatSpaceHierarchyPage,
+  ChatSpaceRoom,
+  ChatThreadSummary,
+  ChatTypingEvent,
+  ChatUser,
+  CreateRoomOptions,
+  SendMediaOptions,
+  SendMessageOptions
+} from '@/kernel/ports/chat';
+import type { MatrixConnectionState, MatrixDriver } from '@/drivers/matrix/MatrixDriver';
+import {
+  Direction,
+  EventStatus,
+  EventTimeline,
+  EventType,
+  HistoryVisibility,
+  JoinRule,
+  MsgType,
+  NotificationCountType,
+  Preset,
+  RelationType,
+  RoomType,
+  THREAD_RELATION_TYPE,
+  Visibility,
+  type IContent,
+  type IEvent,
+  type HierarchyRoom,
+  type MatrixEvent,
+  type Room,
+  type RoomMember
+} from 'matrix-js-sdk';
+import type { EncryptedFile, RoomMessageEventContent, RoomPowerLevelsEventContent } from 'matrix-js-sdk/lib/types';
+import { DecryptionFailureCode } from 'matrix-js-sdk/lib/crypto-api';
+import { encryptAttachment } from '@/drivers/matrix/MatrixAttachmentCrypto';
+import { MATRIX_HTML_FORMAT, extractMentions, markdownToHtml, sanitizeMatrixHtml } from './matrix-html';
 import { ApiError } from '../network/http-client';
 
 export interface MatrixSSOTokenResponse {
@@ -160,17 +213,25 @@ export class MatrixTokenService {
   }
 }
 
+// Upper bound on server round trips for one page of history
+const MAX_PAGINATION_ROUNDS = 5;
+
 /**
  * MatrixAdapter - Implements ChatPort using MatrixDriver
  */
 export class MatrixAdapter implements ChatPort {
   private driver: MatrixDriver;
   private messageCallbacks: Array<(message: ChatMessage) => void> = [];
+  private messageUpdateCallbacks: Array<(message: ChatMessage) => void> = [];
   private roomCallbacks: Array<(room: ChatRoom) => void> = [];
-  private connectionCallbacks: Array<(connected: boolean) => void> = [];
+  private typingCallbacks: Array<(event: ChatTypingEvent) => void> = [];
+  private receiptCallbacks: Array<(event: ChatReceiptEvent) => void> = [];
+  private connectionCallbacks: Array<(state: ChatConnectionState) => void> = [];
+  private connectionState: ChatConnectionState;
 
   constructor(driver: MatrixDriver) {
     this.driver = driver;
+    this.connectionState = this.mapConnectionState(driver.getState().connection);
     this.setupDriverListeners();
   }
 
@@ -194,6 +255,9 @@ export class MatrixAdapter implements ChatPort {
 
     const rooms = client.getRooms();
     
+    // Pending invites are always listed, including ones already waiting at startup
+    const invitedRooms = rooms.filter(room => room.getMyMembership() === 'invite');
+
     // Filter to joined rooms and sort by bump stamp to get most recent
     const sortedRooms = rooms
       .filter(room => room.getMyMembership() === 'join')
@@ -206,9 +270,9 @@ export class MatrixAdapter implements ChatPort {
       })
       .slice(0, 20); // Only return the 20 most recent rooms
     
-    console.log(`[MatrixAdapter] Returning ${sortedRooms.length} most recent rooms out of ${rooms.length} total`);
+    console.log(`[MatrixAdapter] Returning ${sortedRooms.length} most recent rooms and ${invitedRooms.length} invites out of ${rooms.length} total`);
     
-    return sortedRooms.map(room => this.mapRoomToChatRoom(room));
+    return [...invitedRooms, ...sortedRooms].map(room => this.mapRoomToChatRoom(room));
   }
 
   async getRoom(roomId: string): Promise<ChatRoom | null> {
@@ -223,13 +287,13 @@ export class MatrixAdapter implements ChatPort {
     return this.mapRoomToChatRoom(room);
   }
 
-  async joinRoom(roomId: string): Promise<void> {
+  async joinRoom(roomId: string, via?: string[]): Promise<void> {
     const client = this.driver.getClient();
     if (!client) {
       throw new Error('Matrix client not available');
     }
 
-    await client.joinRoom(roomId);
+    await client.joinRoom(roomId, via?.length ? { viaServers: via } : undefined);
   }
 
   async leaveRoom(roomId: string): Promise<void> {
@@ -241,8 +305,305 @@ export class MatrixAdapter implements ChatPort {
     await client.leave(roomId);
   }
 
+  async createRoom(options: CreateRoomOptions): Promise<string> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const isPublic = options.visibility === 'public';
+    const { room_id } = await client.createRoom({
+      name: options.name,
+      topic: options.topic,
+      visibility: isPublic ? Visibility.Public : Visibility.Private,
+      preset: (options.preset as Preset | undefined) ?? (isPublic ? Preset.PublicChat : Preset.PrivateChat),
+      invite: options.invite,
+      initial_state: options.isEncrypted ? [this.buildEncryptionState()] : undefined,
+    });
+    return room_id;
+  }
+
+  async createDirectMessage(userId: string): Promise<string> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const existingRoomId = this.findDirectMessageRoom(userId);
+    if (existingRoomId) return existingRoomId;
+
+    const { room_id } = await client.createRoom({
+      is_direct: true,
+      preset: Preset.TrustedPrivateChat,
+      visibility: Visibility.Private,
+      invite: [userId],
+      initial_state: [this.buildEncryptionState()],
+    });
+
+    // m.direct is how every client tells DMs apart from small groups
+    const directRooms = this.getDirectRooms();
+    await client.setAccountData(EventType.Direct, {
+      ...directRooms,
+      [userId]: [...(directRooms[userId] ?? []), room_id],
+    });
+
+    return room_id;
+  }
+
+  async invite(roomId: string, userId: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.invite(roomId, userId);
+  }
+
+  async acceptInvite(roomId: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    const invite = room ? this.mapInvite(room) : undefined;
+    await client.joinRoom(roomId);
+
+    // The inviter recorded the DM in their m.direct; we have to record it in ours
+    if (invite?.isDirect) {
+      const inviterId = invite.inviter.id;
+      const directRooms = this.getDirectRooms();
+      if (!directRooms[inviterId]?.includes(roomId)) {
+        await client.setAccountData(EventType.Direct, {
+          ...directRooms,
+          [inviterId]: [...(directRooms[inviterId] ?? []), roomId],
+        });
+      }
+    }
+  }
+
+  async declineInvite(roomId: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.leave(roomId);
+  }
+
+  async getSpaceHierarchy(spaceId: string, fromToken?: string, limit: number = 50): Promise<ChatSpaceHierarchyPage> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const response = await client.getRoomHierarchy(spaceId, limit, undefined, false, fromToken);
+
+    // Children are described by their parent's m.space.child state
+    const relations = new Map<string, { via: string[]; isSuggested: boolean }>();
+    response.rooms.forEach(room => room.children_state.forEach((child) => {
+      relations.set(child.state_key, { via: child.content.via ?? [], isSuggested: !!child.content.suggested });
+    }));
+
+    return {
+      rooms: response.rooms
+        .filter(room => room.room_id !== spaceId)
+        .map(room => this.mapHierarchyRoom(room, relations.get(room.room_id))),
+      nextToken: response.next_batch,
+      hasMore: !!response.next_batch
+    };
+  }
+
+  // Room settings and moderation
+  async getRoomSettings(roomId: string): Promise<ChatRoomSettings> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (!room) {
+      throw new Error(`Room ${roomId} not found`);
+    }
+
+    const myUserId = client.getUserId() ?? '';
+    const myPowerLevel = room.getMember(myUserId)?.powerLevel ?? 0;
+    const state = room.currentState;
+    const mayChange = (eventType: EventType) => state.maySendStateEvent(eventType, myUserId);
+
+    return {
+      roomId,
+      name: room.name,
+      topic: state.getStateEvents(EventType.RoomTopic, '')?.getContent().topic || undefined,
+      avatarUrl: room.getMxcAvatarUrl() ?? undefined,
+      joinRule: room.getJoinRule() as ChatJoinRule,
+      historyVisibility: room.getHistoryVisibility() as ChatHistoryVisibility,
+      isEncrypted: room.hasEncryptionStateEvent(),
+      powerLevels: this.mapPowerLevels(this.getPowerLevelsContent(room)),
+      myPowerLevel,
+      permissions: {
+        canChangeName: mayChange(EventType.RoomName),
+        canChangeTopic: mayChange(EventType.RoomTopic),
+        canChangeAvatar: mayChange(EventType.RoomAvatar),
+        canChangeJoinRule: mayChange(EventType.RoomJoinRules),
+        canChangeHistoryVisibility: mayChange(EventType.RoomHistoryVisibility),
+        canEnableEncryption: !room.hasEncryptionStateEvent() && mayChange(EventType.RoomEncryption),
+        canChangePowerLevels: mayChange(EventType.RoomPowerLevels),
+        canInvite: room.canInvite(myUserId),
+        canKick: state.hasSufficientPowerLevelFor('kick', myPowerLevel),
+        canBan: state.hasSufficientPowerLevelFor('ban', myPowerLevel),
+      },
+    };
+  }
+
+  async setRoomName(roomId: string, name: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.setRoomName(roomId, name);
+  }
+
+  async setRoomTopic(roomId: string, topic: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.setRoomTopic(roomId, topic);
+  }
+
+  async setRoomAvatar(roomId: string, file: File | null): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    // Avatars are room state, which is never encrypted, so the file isn't either
+    const url = file
+      ? (await client.uploadContent(file, { name: file.name, type: file.type })).content_uri
+      : undefined;
+    await client.sendStateEvent(roomId, EventType.RoomAvatar, url ? { url } : {}, '');
+  }
+
+  async setJoinRule(roomId: string, joinRule: Exclude<ChatJoinRule, 'restricted'>): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.sendStateEvent(roomId, EventType.RoomJoinRules, { join_rule: joinRule as JoinRule }, '');
+  }
+
+  async setHistoryVisibility(roomId: string, visibility: ChatHistoryVisibility): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.sendStateEvent(
+      roomId,
+      EventType.RoomHistoryVisibility,
+      { history_visibility: visibility as HistoryVisibility },
+      ''
+    );
+  }
+
+  async enableEncryption(roomId: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.sendStateEvent(roomId, EventType.RoomEncryption, this.buildEncryptionState().content, '');
+  }
+
+  async setPowerLevelRequirements(roomId: string, levels: Partial<Omit<ChatPowerLevels, 'users'>>): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (!room) {
+      throw new Error(`Room ${roomId} not found`);
+    }
+
+    // The whole event is replaced, so keep everything we aren't changing
+    const content = { ...this.getPowerLevelsContent(room) };
+    if (levels.usersDefault !== undefined) content.users_default = levels.usersDefault;
+    if (levels.sendMessages !== undefined) content.events_default = levels.sendMessages;
+    if (levels.changeSettings !== undefined) content.state_default = levels.changeSettings;
+    if (levels.invite !== undefined) content.invite = levels.invite;
+    if (levels.kick !== undefined) content.kick = levels.kick;
+    if (levels.ban !== undefined) content.ban = levels.ban;
+    if (levels.redact !== undefined) content.redact = levels.redact;
+
+    await client.sendStateEvent(roomId, EventType.RoomPowerLevels, content, '');
+  }
+
+  async setMemberPowerLevel(roomId: string, userId: string, powerLevel: number): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.setPowerLevel(roomId, userId, powerLevel);
+  }
+
+  async getMemberships(roomId: string): Promise<ChatRoomMember[]> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (!room) {
+      throw new Error(`Room ${roomId} not found`);
+    }
+
+    const listed = new Set<string>(['join', 'invite', 'knock', 'ban']);
+    return room.getMembers()
+      .filter(member => !!member.membership && listed.has(member.membership))
+      .map(member => ({
+        ...this.mapMemberToChatUser(member),
+        membership: member.membership as ChatRoomMember['membership'],
+        powerLevel: member.powerLevel,
+        role: this.mapPowerLevelToRole(member.powerLevel),
+      }))
+      .sort((a, b) => b.powerLevel - a.powerLevel || (a.displayName ?? a.id).localeCompare(b.displayName ?? b.id));
+  }
+
+  async kick(roomId: string, userId: string, reason?: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.kick(roomId, userId, reason);
+  }
+
+  async ban(roomId: string, userId: string, reason?: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.ban(roomId, userId, reason);
+  }
+
+  async unban(roomId: string, userId: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.unban(roomId, userId);
+  }
+
   // Message operations
-  async getMessages(roomId: string, limit: number = 50): Promise<ChatMessage[]> {
+  async getMessages(roomId: string, limit: number = 50): Promise<ChatMessagePage> {
     const client = this.driver.getClient();
     if (!client) {
       throw new Error('Matrix client not available');
@@ -308,8 +669,7 @@ export class MatrixAdapter implements ChatPort {
     
     if (isEncrypted) {
       // Check if crypto is enabled
-      // @ts-ignore - isCryptoEnabled might not be in type definitions
-      const cryptoEnabled = client.isCryptoEnabled?.() || false;
+      const cryptoEnabled = !!client.getCrypto();
       console.log(`[MatrixAdapter] Crypto enabled: ${cryptoEnabled}`);
       
       if (!cryptoEnabled) {
@@ -318,91 +678,24 @@ export class MatrixAdapter implements ChatPort {
     }
     
     // Filter for message events and transform them
-    const messageEvents = allEvents.filter(event => {
-      const type = event.getType();
-      // Include both regular messages and encrypted messages
-      return type === 'm.room.message' || type === 'm.room.encrypted';
-    });
+    // Includes both regular and encrypted messages, but not edits or thread replies
+    const messageEvents = allEvents.filter(event =>
+      this.isDisplayableMessage(event) && !this.getThreadRootId(event)
+    );
     console.log(`[MatrixAdapter] Found ${messageEvents.length} message events (including encrypted)`);
     
-    // Process messages - need to handle decryption properly
-    const processedMessages: ChatMessage[] = [];
-    
-    for (const event of messageEvents.slice(-limit)) {
-      try {
-        // For encrypted events, attempt quick decryption without delays
-        if (event.getType() === 'm.room.encrypted') {
-          // First check if already decrypted
-          let clearContent = event.getClearContent?.();
-          
-          if (!clearContent || !clearContent.msgtype) {
-            console.log(`[MatrixAdapter] Encrypted event ${event.getId()}, attempting quick decrypt...`);
-            
-            // Try a single quick decrypt attempt (no retries, no delays)
-            try {
-              // @ts-ignore - decryptEventIfNeeded might not be in type definitions
-              if (client.decryptEventIfNeeded) {
-                // @ts-ignore
-                await client.decryptEventIfNeeded(event);
-                clearContent = event.getClearContent?.();
-              }
-            } catch (decryptError) {
-              console.warn(`[MatrixAdapter] Quick decrypt failed for ${event.getId()}:`, decryptError);
-            }
-            
-            // If still not decrypted, immediately show as failed (no waiting)
-            if (!clearContent || !clearContent.msgtype) {
-              console.log(`[MatrixAdapter] Event ${event.getId()} not decrypted, showing placeholder`);
-              
-              // Fire off a key request in background (don't wait for it)
-              // @ts-ignore
-              if (client.crypto?.requestRoomKey) {
-                try {
-                  const wireContent = event.getWireContent();
-                  // @ts-ignore - Request key but don't wait
-                  client.crypto.requestRoomKey({
-                    algorithm: wireContent.algorithm,
-                    room_id: event.getRoomId(),
-                    session_id: wireContent.session_id,
-                    sender_key: wireContent.sender_key,
-                  }, [event.getSender()], true).catch((err: any) => {
-                    console.warn(`[MatrixAdapter] Background key request failed:`, err);
-                  });
-                } catch (err) {
-                  // Ignore errors in background key request
-                }
-              }
-              
-              // Immediately add the failed decrypt message
-              processedMessages.push({
-                id: event.getId() || `unknown-${Date.now()}`,
-                roomId: room.roomId,
-                sender: event.getSender() || 'unknown',
-                content: '🔒 Failed to decrypt message',
-                timestamp: event.getTs(),
-                type: 'text'
-              });
-              continue;
-            } else {
-              console.log(`[MatrixAdapter] Successfully decrypted event ${event.getId()}`);
-            }
-          }
-        }
-        
-        const message = this.mapEventToChatMessage(event, room);
-        if (message) {
-          processedMessages.push(message);
-        }
-      } catch (e) {
-        console.error(`[MatrixAdapter] Failed to process event ${event.getId()}:`, e);
-      }
-    }
-    
-    console.log(`[MatrixAdapter] Returning ${processedMessages.length} messages after processing`);
-    return processedMessages;
+    const timelineToken = timeline.getPaginationToken(EventTimeline.BACKWARDS);
+    const messages = await this.mapTimelineEvents(messageEvents, room);
+    console.log(`[MatrixAdapter] Returning ${messages.length} messages after processing`);
+
+    return {
+      messages,
+      nextToken: timelineToken ?? undefined,
+      hasMore: timelineToken !== null
+    };
   }
 
-  async loadMoreMessages(roomId: string, _fromToken?: string, limit: number = 50): Promise<ChatMessage[]> {
+  async loadMoreMessages(roomId: string, fromToken?: string, limit: number = 50): Promise<ChatMessagePage> {
     const client = this.driver.getClient();
     if (!client) {
       throw new Error('Matrix client not available');
@@ -413,40 +706,100 @@ export class MatrixAdapter implements ChatPort {
       throw new Error(`Room ${roomId} not found`);
     }
 
-    // Paginate backwards from the current position
     const timeline = room.getLiveTimeline();
-    
-    try {
-      // @ts-ignore - Matrix SDK method
-      const paginationResult = await client.paginateEventTimeline(timeline, {
-        backwards: true,
-        limit: limit
-      });
-
-      if (!paginationResult) {
-        return []; // No more messages to load
+    const timelineToken = timeline.getPaginationToken(EventTimeline.BACKWARDS);
+
+    // The cursor still points at the start of the live timeline - paginate it in place
+    // so reactions and edits on older messages are aggregated by the SDK
+    if (!fromToken || fromToken === timelineToken) {
+      const collected: MatrixEvent[] = [];
+      let hasMore = timelineToken !== null;
+
+      // Edits, reactions, thread replies and state are filtered out, so a single
+      // page of events may hold few messages - keep going until the page is full
+      for (let round = 0; round < MAX_PAGINATION_ROUNDS && hasMore && collected.length < limit; round++) {
+        const countBefore = timeline.getEvents().length;
+        hasMore = await client.paginateEventTimeline(timeline, { backwards: true, limit });
+        const added = timeline.getEvents().slice(0, timeline.getEvents().length - countBefore);
+        collected.unshift(...added.filter(event => this.isDisplayableMessage(event) && !this.getThreadRootId(event)));
       }
 
-      // Get the newly loaded events
-      const events = timeline.getEvents();
-      
-      return events
-        .filter(event => event.getType() === 'm.room.message')
-        .slice(0, limit) // Get the oldest messages that were just loaded
-        .map(event => this.mapEventToChatMessage(event, room));
-    } catch (error) {
-      console.error('[MatrixAdapter] Failed to load more messages:', error);
-      return [];
+      const nextToken = timeline.getPaginationToken(EventTimeline.BACKWARDS);
+      return {
+        messages: await this.mapTimelineEvents(collected, room),
+        nextToken: nextToken ?? undefined,
+        hasMore: hasMore && nextToken !== null
+      };
+    }
+
+    // The live timeline was replaced since the cursor was issued (e.g. a gappy sync),
+    // so fetch the page straight from the server
+    const response = await client.createMessagesRequest(roomId, fromToken, limit, Direction.Backward);
+    const mapEvent = client.getEventMapper();
+    // Backwards pages come newest first
+    const events = response.chunk
+      .map(rawEvent => mapEvent(rawEvent))
+      .reverse()
+      .filter(event => this.isDisplayableMessage(event) && !this.getThreadRootId(event));
+
+    return {
+      messages: await this.mapTimelineEvents(events, room),
+      nextToken: response.end,
+      hasMore: !!response.end
+    };
+  }
+
+  /**
+   * Map message events in timeline order, attempting a quick decrypt of encrypted ones
+   * Events that still can't be decrypted are marked with the reason, and are updated in
+   * place through onMessageUpdate if their key arrives later
+   */
+  private async mapTimelineEvents(events: MatrixEvent[], room: Room): Promise<ChatMessage[]> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    // Decrypt in parallel - a failure is recorded on the event rather than thrown
+    await Promise.all(events
+      .filter(event => event.isEncrypted() && !event.getClearContent())
+      .map(event => client.decryptEventIfNeeded(event).catch((error) => {
+        console.warn(`[MatrixAdapter] Quick decrypt failed for ${event.getId()}:`, error);
+      })));
+
+    const processedMessages: ChatMessage[] = [];
+    for (const event of events) {
+      try {
+        processedMessages.push(this.mapEventToChatMessage(event, room));
+      } catch (e) {
+        console.error(`[MatrixAdapter] Failed to process event ${event.getId()}:`, e);
+      }
     }
+    
+    return processedMessages;
   }
 
-  async sendMessage(roomId: string, content: string): Promise<ChatMessage> {
+  async sendMessage(roomId: string, content: string, options?: SendMessageOptions): Promise<ChatMessage> {
     const client = this.driver.getClient();
     if (!client) {
       throw new Error('Matrix client not available');
     }
 
-    const response = await client.sendTextMessage(roomId, content);
+    const textContent = this.buildTextContent(content, options?.mentions);
+    const messageContent = {
+      ...textContent,
+      ...this.buildRelatesTo(roomId, options),
+    } as RoomMessageEventContent;
+
+    const txnId = options?.txnId || client.makeTxnId();
+    let response;
+    try {
+      response = await client.sendEvent(roomId, EventType.RoomMessage, messageContent, txnId);
+    } catch (error) {
+      // The caller owns retries, so don't leave the SDK's failed local echo in the timeline
+      this.cancelFailedLocalEcho(roomId, txnId);
+      throw error;
+    }
     
     // Create a temporary message object since we don't have the full event yet
     return {
@@ -454,42 +807,27 @@ export class MatrixAdapter implements ChatPort {
       roomId,
       sender: client.getUserId() || 'unknown',
       content,
+      formattedContent: textContent.formatted_body ? sanitizeMatrixHtml(textContent.formatted_body) : undefined,
       timestamp: Date.now(),
-      type: 'text'
+      type: 'text',
+      inReplyTo: options?.inReplyTo ? { messageId: options.inReplyTo } : undefined,
+      threadId: options?.threadId,
+      mentions: options?.mentions,
+      sendStatus: 'sent'
     };
   }
 
-  async focusRoom(roomId: string, messageLimit: number = 50): Promise<void> {
-    // Call the driver's focusRoom method to ensure messages are loaded
-    await this.driver.focusRoom(roomId, messageLimit);
-  }
-
-  // User operations
-  async getCurrentUser(): Promise<ChatUser | null> {
+  private cancelFailedLocalEcho(roomId: string, txnId: string): void {
     const client = this.driver.getClient();
-    if (!client) return null;
-
-    const userId = client.getUserId();
-    if (!userId) return null;
+    const localEcho = client?.getRoom(roomId)?.getLiveTimeline().getEvents()
+      .find(event => event.getTxnId() === txnId && event.status === EventStatus.NOT_SENT);
 
-    try {
-      const profile = await client.getProfileInfo(userId);
-      return {
-        id: userId,
-        displayName: profile.displayname,
-        avatarUrl: profile.avatar_url,
-        presence: 'online' // Matrix presence would need separate API call
-      };
-    } catch (error) {
-      return {
-        id: userId,
-        displayName: userId,
-        presence: 'online'
-      };
+    if (client && localEcho) {
+      client.cancelPendingEvent(localEcho);
     }
   }
 
-  async getRoomMembers(roomId: string): Promise<ChatUser[]> {
+  async sendMedia(roomId: string, file: File, options?: SendMediaOptions): Promise<ChatMessage> {
     const client = this.driver.getClient();
     if (!client) {
       throw new Error('Matrix client not available');
@@ -500,16 +838,289 @@ export class MatrixAdapter implements ChatPort {
       throw new Error(`Room ${roomId} not found`);
     }
 
-    const members = room.getJoinedMembers();
-    return Object.values(members).map(member => ({
-      id: member.userId,
-      displayName: member.name,
-      avatarUrl: member.getAvatarUrl(client.baseUrl, 64, 64, 'crop', false, false) || undefined,
-      presence: 'online' // Would need presence API
-    }));
-  }
+    const mimetype = file.type || 'application/octet-stream';
+    const msgtype = this.getMediaMsgType(mimetype);
+    const info: Record<string, unknown> = { mimetype, size: file.size };
 
-  // Connection state
+    if (msgtype === MsgType.Image) {
+      Object.assign(info, await this.readImageDimensions(file));
+    }
+
+    const progressHandler = options?.onProgress
+      ? ({ loaded, total }: { loaded: number; total: number }) => options.onProgress?.(loaded, total)
+      : undefined;
+
+    // Encrypted rooms get encrypted attachments - the server only ever sees ciphertext
+    let source: { url: string } | { file: EncryptedFile };
+    if (room.hasEncryptionStateEvent()) {
+      const encrypted = await encryptAttachment(await file.arrayBuffer());
+      const { content_uri } = await client.uploadContent(new Blob([encrypted.data]), {
+        type: 'application/octet-stream',
+        includeFilename: false,
+        progressHandler,
+      });
+      source = { file: { ...encrypted.info, url: content_uri } };
+    } else {
+      const { content_uri } = await client.uploadContent(file, {
+        name: file.name,
+        type: mimetype,
+        progressHandler,
+      });
+      source = { url: content_uri };
+    }
+
+    // A body that differs from the filename is treated as a caption
+    const body = options?.caption?.trim() || file.name;
+    const messageContent = {
+      msgtype,
+      body,
+      filename: file.name,
+      info,
+      ...source,
+      ...this.buildRelatesTo(roomId, options),
+    } as RoomMessageEventContent;
+
+    const txnId = options?.txnId || client.makeTxnId();
+    let response;
+    try {
+      response = await client.sendEvent(roomId, EventType.RoomMessage, messageContent, txnId);
+    } catch (error) {
+      this.cancelFailedLocalEcho(roomId, txnId);
+      throw error;
+    }
+
+    return {
+      id: response.event_id || `temp-${Date.now()}`,
+      roomId,
+      sender: client.getUserId() || 'unknown',
+      content: body,
+      timestamp: Date.now(),
+      type: this.determineMessageType(messageContent),
+      media: this.mapMedia(messageContent),
+      inReplyTo: options?.inReplyTo ? { messageId: options.inReplyTo } : undefined,
+      threadId: options?.threadId,
+      sendStatus: 'sent'
+    };
+  }
+
+  async getThreadMessages(roomId: string, threadId: string, limit: number = 50): Promise<ChatMessage[]> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (!room) {
+      throw new Error(`Room ${roomId} not found`);
+    }
+
+    // Fetch the thread from the server - replies are not guaranteed to be in the live timeline
+    const { originalEvent, events } = await client.relations(
+      roomId,
+      threadId,
+      THREAD_RELATION_TYPE.name,
+      null,
+      { dir: Direction.Backward, limit }
+    );
+
+    const rootEvent = originalEvent || room.findEventById(threadId);
+    const threadEvents = [...events]
+      .filter(event => this.isDisplayableMessage(event))
+      .sort((a, b) => a.getTs() - b.getTs());
+
+    return [rootEvent, ...threadEvents]
+      .filter((event): event is MatrixEvent => !!event)
+      .map(event => this.mapEventToChatMessage(event, room));
+  }
+
+  async retryDecryption(roomId: string, messageId: string): Promise<void> {
+    const client = this.driver.getClient();
+    const event = client?.getRoom(roomId)?.findEventById(messageId);
+    if (!client || !event?.isDecryptionFailure()) return;
+
+    // A retry also asks the key backup for this message's session; the outcome arrives
+    // through onMessageUpdate like any other decryption
+    await client.decryptEventIfNeeded(event, { isRetry: true });
+  }
+
+  async focusRoom(roomId: string, messageLimit: number = 50): Promise<void> {
+    // Call the driver's focusRoom method to ensure messages are loaded
+    await this.driver.focusRoom(roomId, messageLimit);
+  }
+
+  async editMessage(roomId: string, messageId: string, content: string, mentions?: ChatMention[]): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const textContent = this.buildTextContent(content, mentions);
+
+    // The top-level body is the fallback for clients that don't understand edits
+    await client.sendEvent(roomId, EventType.RoomMessage, {
+      msgtype: MsgType.Text,
+      body: `* ${content}`,
+      ...(textContent.formatted_body ? {
+        format: MATRIX_HTML_FORMAT,
+        formatted_body: `* ${textContent.formatted_body}`,
+      } : {}),
+      'm.mentions': textContent['m.mentions'],
+      'm.new_content': textContent,
+      'm.relates_to': {
+        rel_type: RelationType.Replace,
+        event_id: messageId,
+      },
+    });
+  }
+
+  async deleteMessage(roomId: string, messageId: string, reason?: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    await client.redactEvent(roomId, messageId, undefined, reason ? { reason } : undefined);
+  }
+
+  // Reaction operations
+  async addReaction(roomId: string, messageId: string, key: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (room && this.findOwnReaction(room, messageId, key)) {
+      return; // Already reacted with this key
+    }
+
+    await client.sendEvent(roomId, EventType.Reaction, {
+      'm.relates_to': {
+        rel_type: RelationType.Annotation,
+        event_id: messageId,
+        key,
+      },
+    });
+  }
+
+  async removeReaction(roomId: string, messageId: string, key: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (!room) {
+      throw new Error(`Room ${roomId} not found`);
+    }
+
+    const reactionEvent = this.findOwnReaction(room, messageId, key);
+    const reactionEventId = reactionEvent?.getId();
+    if (!reactionEventId) {
+      return; // Nothing to remove
+    }
+
+    await client.redactEvent(roomId, reactionEventId);
+  }
+
+  // User operations
+  async getCurrentUser(): Promise<ChatUser | null> {
+    const client = this.driver.getClient();
+    if (!client) return null;
+
+    const userId = client.getUserId();
+    if (!userId) return null;
+
+    try {
+      const profile = await client.getProfileInfo(userId);
+      return {
+        id: userId,
+        displayName: profile.displayname,
+        avatarUrl: profile.avatar_url,
+        presence: 'online' // Matrix presence would need separate API call
+      };
+    } catch (error) {
+      return {
+        id: userId,
+        displayName: userId,
+        presence: 'online'
+      };
+    }
+  }
+
+  async getRoomMembers(roomId: string): Promise<ChatUser[]> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (!room) {
+      throw new Error(`Room ${roomId} not found`);
+    }
+
+    const members = room.getJoinedMembers();
+    return Object.values(members).map(member => this.mapMemberToChatUser(member));
+  }
+
+  async searchUsers(query: string, limit: number = 20): Promise<ChatUser[]> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const myUserId = client.getUserId();
+    const { results } = await client.searchUserDirectory({ term: query, limit });
+    return results
+      .filter(result => result.user_id !== myUserId)
+      .map(result => ({
+        id: result.user_id,
+        displayName: result.display_name,
+        avatarUrl: result.avatar_url,
+      }));
+  }
+
+  // Presence in a room
+  async sendTyping(roomId: string, isTyping: boolean): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    // The server expires typing state after the timeout unless it is refreshed
+    await client.sendTyping(roomId, isTyping, 30000);
+  }
+
+  async sendReadReceipt(roomId: string, messageId: string): Promise<void> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    const event = room?.findEventById(messageId);
+    const userId = client.getUserId();
+    if (!room || !event || !userId) return;
+
+    // Skip if we've already read this far
+    if (room.hasUserReadEvent(userId, messageId)) return;
+
+    await client.sendReadReceipt(event);
+  }
+
+  async getReadReceipts(roomId: string): Promise<ChatReadReceipt[]> {
+    const client = this.driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+
+    const room = client.getRoom(roomId);
+    if (!room) return [];
+
+    return this.mapReadReceipts(room);
+  }
+
+  // Connection state
   isConnected(): boolean {
     return this.driver.isReady();
   }
@@ -518,10 +1129,18 @@ export class MatrixAdapter implements ChatPort {
     await this.driver.start();
   }
 
+  getConnectionState(): ChatConnectionState {
+    return this.connectionState;
+  }
+
   async disconnect(): Promise<void> {
     await this.driver.stop();
   }
 
+  reconnectNow(): void {
+    this.driver.reconnectNow();
+  }
+
   async waitForSync(timeoutMs?: number): Promise<void> {
     await this.driver.waitForSync(timeoutMs);
   }
@@ -537,6 +1156,16 @@ export class MatrixAdapter implements ChatPort {
     };
   }
 
+  onMessageUpdate(callback: (message: ChatMessage) => void): () => void {
+    this.messageUpdateCallbacks.push(callback);
+    return () => {
+      const index = this.messageUpdateCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.messageUpdateCallbacks.splice(index, 1);
+      }
+    };
+  }
+
   onRoomUpdate(callback: (room: ChatRoom) => void): () => void {
     this.roomCallbacks.push(callback);
     return () => {
@@ -547,7 +1176,27 @@ export class MatrixAdapter implements ChatPort {
     };
   }
 
-  onConnectionChange(callback: (connected: boolean) => void): () => void {
+  onTyping(callback: (event: ChatTypingEvent) => void): () => void {
+    this.typingCallbacks.push(callback);
+    return () => {
+      const index = this.typingCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.typingCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  onReceipt(callback: (event: ChatReceiptEvent) => void): () => void {
+    this.receiptCallbacks.push(callback);
+    return () => {
+      const index = this.receiptCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.receiptCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  onConnectionChange(callback: (state: ChatConnectionState) => void): () => void {
     this.connectionCallbacks.push(callback);
     return () => {
       const index = this.connectionCallbacks.indexOf(callback);
@@ -563,6 +1212,13 @@ export class MatrixAdapter implements ChatPort {
     this.driver.onMessage((event, room) => {
       const message = this.mapEventToChatMessage(event, room);
       this.messageCallbacks.forEach(callback => callback(message));
+
+      // A new thread reply changes the summary shown on its root
+      const rootEvent = message.threadId ? room.findEventById(message.threadId) : undefined;
+      if (rootEvent) {
+        const rootMessage = this.mapEventToChatMessage(rootEvent, room);
+        this.messageUpdateCallbacks.forEach(callback => callback(rootMessage));
+      }
       
       // Also trigger room update when a new message arrives
       // This ensures the room list re-sorts by bumpStamp
@@ -570,19 +1226,113 @@ export class MatrixAdapter implements ChatPort {
       this.roomCallbacks.forEach(callback => callback(chatRoom));
     });
 
+    // Reactions, edits and redactions change a message that is already displayed
+    this.driver.onEventUpdate((_event, room, targetEventId) => {
+      const targetEvent = room.findEventById(targetEventId);
+      if (!targetEvent || !this.isDisplayableMessage(targetEvent)) return;
+
+      const message = this.mapEventToChatMessage(targetEvent, room);
+      this.messageUpdateCallbacks.forEach(callback => callback(message));
+    });
+
     // Listen to driver room updates
     this.driver.onRoomUpdate((room) => {
       const chatRoom = this.mapRoomToChatRoom(room);
       this.roomCallbacks.forEach(callback => callback(chatRoom));
     });
 
+    // Typing notifications - emit the full set of typists for the room
+    this.driver.onTyping((room) => {
+      const myUserId = this.driver.getClient()?.getUserId();
+      const users = room.getMembers()
+        .filter(member => member.typing && member.userId !== myUserId)
+        .map(member => this.mapMemberToChatUser(member));
+
+      this.typingCallbacks.forEach(callback => callback({ roomId: room.roomId, users }));
+    });
+
+    // Read receipts - emit a snapshot of everyone's read position
+    this.driver.onReceipt((room) => {
+      const receipts = this.mapReadReceipts(room);
+      this.receiptCallbacks.forEach(callback => callback({ roomId: room.roomId, receipts }));
+    });
+
     // Listen to driver state changes
-    this.driver.onStateChange((state) => {
-      const connected = state.connected && !state.error;
-      this.connectionCallbacks.forEach(callback => callback(connected));
+    // Only connection changes are forwarded - the driver also reports every sync
+    this.driver.onStateChange(({ connection }) => {
+      const previous = this.connectionState;
+      if (
+        connection.status === previous.status &&
+        connection.attempt === previous.attempt &&
+        (connection.nextRetryAt ?? undefined) === previous.nextRetryAt
+      ) {
+        return;
+      }
+
+      this.connectionState = this.mapConnectionState(connection);
+      this.connectionCallbacks.forEach(callback => callback(this.connectionState));
     });
   }
 
+  private mapConnectionState(connection: MatrixConnectionState): ChatConnectionState {
+    return {
+      status: connection.status,
+      attempt: connection.attempt,
+      nextRetryAt: connection.nextRetryAt ?? undefined,
+    };
+  }
+
+  private mapMemberToChatUser(member: RoomMember): ChatUser {
+    return {
+      id: member.userId,
+      displayName: member.name,
+      avatarUrl: member.getMxcAvatarUrl(),
+      presence: 'online' // Would need presence API
+    };
+  }
+
+  /**
+   * Read position of every other joined member
+   * Receipts on events we don't display (reactions, state) are moved back
+   * to the closest preceding displayed message
+   */
+  private mapReadReceipts(room: Room): ChatReadReceipt[] {
+    const myUserId = this.driver.getClient()?.getUserId();
+    const events = room.getLiveTimeline().getEvents();
+    const receipts: ChatReadReceipt[] = [];
+
+    for (const member of room.getJoinedMembers()) {
+      if (member.userId === myUserId) continue;
+
+      const readUpToId = room.getEventReadUpTo(member.userId);
+      if (!readUpToId) continue;
+
+      const messageId = this.findDisplayedMessageAtOrBefore(events, readUpToId);
+      if (!messageId) continue;
+
+      receipts.push({
+        user: this.mapMemberToChatUser(member),
+        messageId,
+        timestamp: room.getReadReceiptForUserId(member.userId)?.data.ts,
+      });
+    }
+
+    return receipts;
+  }
+
+  private findDisplayedMessageAtOrBefore(events: MatrixEvent[], eventId: string): string | undefined {
+    const index = events.findIndex(event => event.getId() === eventId);
+    if (index === -1) return undefined;
+
+    for (let i = index; i >= 0; i--) {
+      const event = events[i];
+      if (this.isDisplayableMessage(event) && !this.getThreadRootId(event)) {
+        return event.getId();
+      }
+    }
+    return undefined;
+  }
+
   private mapRoomToChatRoom(room: Room): ChatRoom {
     const roomType = this.determineRoomType(room);
     
@@ -597,6 +1347,10 @@ export class MatrixAdapter implements ChatPort {
     // Don't include any messages - pure lazy loading
     // Messages will only be fetched when a room is actually opened
 
+    // Notification counts come from the server and are adjusted locally as receipts arrive
+    const myUserId = this.driver.getClient()?.getUserId();
+    const lastReadEventId = myUserId ? room.getEventReadUpTo(myUserId) || undefined : undefined;
+
     return {
       id: room.roomId,
       name: room.name || room.roomId,
@@ -606,59 +1360,473 @@ export class MatrixAdapter implements ChatPort {
       lastActiveTimestamp,
       bumpStamp,
       isJoined: room.getMyMembership() === 'join',
-      isEncrypted: room.hasEncryptionStateEvent()
+      invite: this.mapInvite(room),
+      isEncrypted: room.hasEncryptionStateEvent(),
+      alias: room.getCanonicalAlias() || undefined,
+      unreadCount: room.getUnreadNotificationCount(NotificationCountType.Total),
+      highlightCount: room.getUnreadNotificationCount(NotificationCountType.Highlight),
+      lastReadEventId
     };
   }
 
   private mapEventToChatMessage(event: MatrixEvent, room: Room): ChatMessage {
-    let content = event.getContent();
-    
-    // For encrypted events, try to get the decrypted content
-    if (event.getType() === 'm.room.encrypted') {
-      const clearContent = event.getClearContent?.();
-      if (clearContent) {
-        content = clearContent;
-        console.log(`[MatrixAdapter] Using decrypted content for event ${event.getId()}`);
-      } else {
-        console.warn(`[MatrixAdapter] Could not decrypt event ${event.getId()}`);
-        // Return a placeholder for undecrypted messages - still show them
-        return {
-          id: event.getId() || `unknown-${Date.now()}`,
-          roomId: room.roomId,
-          sender: event.getSender() || 'unknown',
-          content: '🔒 Failed to decrypt message',
-          timestamp: event.getTs(),
-          type: 'text'
-        };
-      }
+    // Redacted messages become tombstones - their content is gone
+    if (event.isRedacted()) {
+      return {
+        id: event.getId() || `unknown-${Date.now()}`,
+        roomId: room.roomId,
+        sender: event.getSender() || 'unknown',
+        content: '',
+        timestamp: event.getTs(),
+        type: 'text',
+        isRedacted: true
+      };
     }
+
+    // getContent() already resolves m.replace relations to the latest edit
+    const content = event.getContent();
     
+    // Undecryptable messages keep their place and say why they can't be read
+    if (event.isDecryptionFailure() || event.getType() === EventType.RoomMessageEncrypted) {
+      return {
+        id: event.getId() || `unknown-${Date.now()}`,
+        roomId: room.roomId,
+        sender: event.getSender() || 'unknown',
+        content: '🔒 Unable to decrypt message',
+        timestamp: event.getTs(),
+        type: 'text',
+        threadId: this.getThreadRootId(event),
+        decryptionFailure: this.mapDecryptionFailure(event.decryptionFailureReason)
+      };
+    }
+
+    const threadId = this.getThreadRootId(event);
+    const inReplyTo = this.mapReplyReference(event, room);
+    let body: string = content.body || content.text || '[No content]';
+
+    // Replies may carry a quoted fallback of the original message - we render our own quote
+    if (inReplyTo) {
+      body = this.stripReplyFallback(body);
+    }
+
+    const formattedContent = this.mapFormattedContent(content);
+
     return {
       id: event.getId() || `unknown-${Date.now()}`,
       roomId: room.roomId,
       sender: event.getSender() || 'unknown',
-      content: content.body || content.text || '[No content]',
+      content: body,
+      formattedContent,
       timestamp: event.getTs(),
-      type: this.determineMessageType(content)
+      type: this.determineMessageType(content),
+      media: this.mapMedia(content),
+      reactions: this.mapReactions(event, room),
+      isEdited: !!event.replacingEventId(),
+      inReplyTo,
+      threadId,
+      threadSummary: threadId ? undefined : this.mapThreadSummary(event, room),
+      mentionsMe: this.isHighlightForMe(event),
+      mentions: formattedContent ? extractMentions(formattedContent, body) : undefined
     };
   }
 
-  private determineRoomType(room: Room): 'direct' | 'group' | 'channel' {
-    // Simple heuristic - could be improved with room state analysis
-    const memberCount = room.getJoinedMemberCount();
-    const roomName = room.name || '';
-    
-    if (memberCount === 2) return 'direct';
-    if (roomName.startsWith('#')) return 'channel';
+  /**
+   * Text message content with an HTML rendering of any Markdown
+   * The Markdown source stays in body as the plain-text fallback; mentions become
+   * matrix.to permalinks in the HTML and are declared in m.mentions
+   * Only the ranges the composer tracked are linked, not other uses of the same text
+   */
+  private buildTextContent(text: string, mentions: ChatMention[] = []): {
+    msgtype: MsgType.Text;
+    body: string;
+    format?: typeof MATRIX_HTML_FORMAT;
+    formatted_body?: string;
+    'm.mentions': { user_ids?: string[] };
+  } {
+    const presentMentions = mentions
+      .filter(mention => text.slice(mention.start, mention.start + mention.text.length) === mention.text)
+      .sort((a, b) => a.start - b.start);
+
+    let markdown = '';
+    let cursor = 0;
+    presentMentions.forEach((mention) => {
+      if (mention.start < cursor) return; // Overlaps the previous mention
+      const label = mention.text.replace(/[[\]]/g, '');
+      markdown += `${text.slice(cursor, mention.start)}[${label}](${this.getPermalink(mention.id)})`;
+      cursor = mention.start + mention.text.length;
+    });
+    markdown += text.slice(cursor);
+
+    const userIds = [...new Set(presentMentions.filter(mention => mention.type === 'user').map(mention => mention.id))];
+    // An empty m.mentions tells other clients not to guess mentions from the body
+    const mentionsContent = userIds.length > 0 ? { user_ids: userIds } : {};
+
+    const html = markdownToHtml(markdown);
+    if (!html) {
+      return { msgtype: MsgType.Text, body: text, 'm.mentions': mentionsContent };
+    }
+    return { msgtype: MsgType.Text, body: text, format: MATRIX_HTML_FORMAT, formatted_body: html, 'm.mentions': mentionsContent };
+  }
+
+  private getPermalink(id: string): string {
+    return `https://matrix.to/#/${id}`;
+  }
+
+  /**
+   * Push rules decide highlights (mentions, keywords, @room), same as the server's highlight count
+   */
+  private isHighlightForMe(event: MatrixEvent): boolean {
+    const client = this.driver.getClient();
+    if (!client || event.getSender() === client.getUserId()) return false;
+
+    return !!client.getPushActionsForEvent(event)?.tweaks?.highlight;
+  }
+
+  private mapFormattedContent(content: IContent): string | undefined {
+    if (content.format !== MATRIX_HTML_FORMAT || typeof content.formatted_body !== 'string') {
+      return undefined;
+    }
+    // The sanitizer also drops <mx-reply> reply fallbacks
+    return sanitizeMatrixHtml(content.formatted_body) || undefined;
+  }
+
+  /**
+   * Build m.relates_to for replies and thread posts
+   * Thread posts without an explicit reply use the latest thread event as a fallback reply target
+   */
+  private buildRelatesTo(roomId: string, options?: SendMessageOptions): Partial<RoomMessageEventContent> {
+    if (options?.threadId) {
+      const fallbackReplyId = options.inReplyTo || this.getLatestThreadEventId(roomId, options.threadId);
+      return {
+        'm.relates_to': {
+          rel_type: THREAD_RELATION_TYPE.name,
+          event_id: options.threadId,
+          is_falling_back: !options.inReplyTo,
+          'm.in_reply_to': { event_id: fallbackReplyId },
+        },
+      } as Partial<RoomMessageEventContent>;
+    }
+
+    if (options?.inReplyTo) {
+      return {
+        'm.relates_to': {
+          'm.in_reply_to': { event_id: options.inReplyTo },
+        },
+      };
+    }
+
+    return {};
+  }
+
+  private getLatestThreadEventId(roomId: string, threadId: string): string {
+    const room = this.driver.getClient()?.getRoom(roomId);
+    const threadEvents = room?.getLiveTimeline().getEvents()
+      .filter(event => this.getThreadRootId(event) === threadId) || [];
+
+    return threadEvents[threadEvents.length - 1]?.getId() || threadId;
+  }
+
+  private getThreadRootId(event: MatrixEvent): string | undefined {
+    const relation = event.getWireContent()['m.relates_to'];
+    return relation?.rel_type === THREAD_RELATION_TYPE.name ? relation.event_id : undefined;
+  }
+
+  /**
+   * Resolve m.in_reply_to to a reference with the quoted message's sender and body
+   * Thread fallback replies (is_falling_back) are not real replies and are ignored
+   */
+  private mapReplyReference(event: MatrixEvent, room: Room): ChatMessageReference | undefined {
+    const relation = event.getWireContent()['m.relates_to'];
+    const replyEventId: string | undefined = relation?.['m.in_reply_to']?.event_id;
+    if (!replyEventId || relation?.is_falling_back) return undefined;
+
+    const replyEvent = room.findEventById(replyEventId);
+    if (!replyEvent) {
+      return { messageId: replyEventId };
+    }
+
+    return {
+      messageId: replyEventId,
+      sender: replyEvent.getSender(),
+      content: replyEvent.isRedacted()
+        ? undefined
+        : this.stripReplyFallback(replyEvent.getContent().body || ''),
+    };
+  }
+
+  private stripReplyFallback(body: string): string {
+    // Fallback format: lines prefixed with "> " followed by a blank line
+    return body.replace(/^(> .*(\n|$))+\n?/, '');
+  }
+
+  /**
+   * Reply count for a thread root
+   * Combines the server-bundled aggregation with replies received since it was computed
+   */
+  private mapThreadSummary(event: MatrixEvent, room: Room): ChatThreadSummary | undefined {
+    const eventId = event.getId();
+    if (!eventId) return undefined;
+
+    const serverSummary = event.getServerAggregatedRelation<{ count: number; latest_event?: IEvent }>(
+      THREAD_RELATION_TYPE.name
+    );
+    const serverLatestTs = serverSummary?.latest_event?.origin_server_ts || 0;
+
+    const localReplies = room.getLiveTimeline().getEvents()
+      .filter(timelineEvent => this.getThreadRootId(timelineEvent) === eventId);
+    const newerLocalReplies = localReplies.filter(reply => reply.getTs() > serverLatestTs);
+
+    const replyCount = (serverSummary?.count || 0) + (serverSummary ? newerLocalReplies.length : localReplies.length);
+    if (replyCount === 0) return undefined;
+
+    const latestLocalTs = localReplies[localReplies.length - 1]?.getTs() || 0;
+    return {
+      replyCount,
+      latestReplyTimestamp: Math.max(serverLatestTs, latestLocalTs) || undefined,
+    };
+  }
+
+  /**
+   * Why the SDK couldn't decrypt an event, reduced to what the user can do about it
+   */
+  private mapDecryptionFailure(code: DecryptionFailureCode | null): ChatDecryptionFailure {
+    switch (code) {
+      case DecryptionFailureCode.MEGOLM_KEY_WITHHELD:
+        return 'withheld';
+      case DecryptionFailureCode.MEGOLM_KEY_WITHHELD_FOR_UNVERIFIED_DEVICE:
+        return 'unverified-device';
+      case DecryptionFailureCode.HISTORICAL_MESSAGE_BACKUP_UNCONFIGURED:
+        return 'backup-available';
+      default:
+        // Includes events that are still being decrypted
+        return 'missing-keys';
+    }
+  }
+
+  /**
+   * Whether an event should appear as its own entry in the timeline
+   * Edits (m.replace) are folded into the message they replace
+   */
+  private isDisplayableMessage(event: MatrixEvent): boolean {
+    const type = event.getType();
+    if (type !== 'm.room.message' && type !== 'm.room.encrypted') return false;
+    // Our own messages appear once the server has echoed them back
+    if (event.status !== null) return false;
+    return !event.isRelation(RelationType.Replace);
+  }
+
+  /**
+   * Summarise m.annotation relations on an event, grouped by key
+   */
+  private mapReactions(event: MatrixEvent, room: Room): ChatReaction[] | undefined {
+    const annotations = this.getAnnotations(room, event.getId())?.getSortedAnnotationsByKey();
+    if (!annotations || annotations.length === 0) return undefined;
+
+    const myUserId = this.driver.getClient()?.getUserId();
+
+    return annotations
+      .map(([key, events]) => {
+        const senders = [...events]
+          .filter(reaction => !reaction.isRedacted())
+          .map(reaction => reaction.getSender())
+          .filter((sender): sender is string => !!sender);
+
+        return {
+          key,
+          count: senders.length,
+          senders,
+          includesMe: !!myUserId && senders.includes(myUserId),
+        };
+      })
+      .filter(reaction => reaction.count > 0);
+  }
+
+  private findOwnReaction(room: Room, eventId: string, key: string): MatrixEvent | undefined {
+    const myUserId = this.driver.getClient()?.getUserId();
+    if (!myUserId) return undefined;
+
+    const ownReactions = this.getAnnotations(room, eventId)?.getAnnotationsBySender()?.[myUserId];
+    if (!ownReactions) return undefined;
+
+    return [...ownReactions].find(reaction =>
+      !reaction.isRedacted() && reaction.getRelation()?.key === key
+    );
+  }
+
+  private getAnnotations(room: Room, eventId: string | undefined) {
+    if (!eventId) return undefined;
+
+    return room
+      .getUnfilteredTimelineSet()
+      .relations.getChildEventsForEvent(eventId, RelationType.Annotation, EventType.Reaction);
+  }
+
+  private mapHierarchyRoom(
+    room: HierarchyRoom,
+    relation: { via: string[]; isSuggested: boolean } | undefined
+  ): ChatSpaceRoom {
+    const membership = this.driver.getClient()?.getRoom(room.room_id)?.getMyMembership();
+    return {
+      id: room.room_id,
+      name: room.name || room.canonical_alias || room.room_id,
+      topic: room.topic,
+      alias: room.canonical_alias,
+      avatarUrl: room.avatar_url,
+      memberCount: room.num_joined_members,
+      isSpace: room.room_type === RoomType.Space,
+      isJoined: membership === 'join',
+      isSuggested: relation?.isSuggested ?? false,
+      via: relation?.via ?? []
+    };
+  }
+
+  private getDirectRooms(): Record<string, string[]> {
+    const client = this.driver.getClient();
+    return client?.getAccountData(EventType.Direct)?.getContent<Record<string, string[]>>() ?? {};
+  }
+
+  /**
+   * A DM with the user that both of us are still in (or invited to)
+   */
+  private findDirectMessageRoom(userId: string): string | undefined {
+    const client = this.driver.getClient();
+    const isActive = (membership?: string) => membership === 'join' || membership === 'invite';
+
+    return this.getDirectRooms()[userId]?.find((roomId) => {
+      const room = client?.getRoom(roomId);
+      return !!room && isActive(room.getMyMembership()) && isActive(room.getMember(userId)?.membership);
+    });
+  }
+
+  /**
+   * Who invited us and why, read from our own membership event
+   * Invites only carry stripped state, so the inviter may have no member event
+   */
+  private mapInvite(room: Room): ChatRoomInvite | undefined {
+    if (room.getMyMembership() !== 'invite') return undefined;
+
+    const myUserId = this.driver.getClient()?.getUserId();
+    const membershipEvent = myUserId ? room.getMember(myUserId)?.events.member : undefined;
+    const inviterId = membershipEvent?.getSender() ?? room.getDMInviter();
+    const inviter = inviterId ? room.getMember(inviterId) : null;
+    const content = membershipEvent?.getContent() ?? {};
+
+    return {
+      inviter: inviter ? this.mapMemberToChatUser(inviter) : { id: inviterId ?? '' },
+      timestamp: membershipEvent?.getTs(),
+      reason: content.reason || undefined,
+      isDirect: !!content.is_direct,
+    };
+  }
+
+  private getPowerLevelsContent(room: Room): RoomPowerLevelsEventContent {
+    return room.currentState.getStateEvents(EventType.RoomPowerLevels, '')?.getContent<RoomPowerLevelsEventContent>() ?? {};
+  }
+
+  /**
+   * Fills in the spec defaults for anything the power levels event leaves out
+   */
+  private mapPowerLevels(content: RoomPowerLevelsEventContent): ChatPowerLevels {
+    return {
+      users: content.users ?? {},
+      usersDefault: content.users_default ?? 0,
+      sendMessages: content.events_default ?? 0,
+      changeSettings: content.state_default ?? 50,
+      invite: content.invite ?? 0,
+      kick: content.kick ?? 50,
+      ban: content.ban ?? 50,
+      redact: content.redact ?? 50,
+    };
+  }
+
+  private mapPowerLevelToRole(powerLevel: number): ChatMemberRole {
+    if (powerLevel >= 100) return 'admin';
+    if (powerLevel >= 50) return 'moderator';
+    return 'member';
+  }
+
+  private buildEncryptionState() {
+    return {
+      type: EventType.RoomEncryption,
+      state_key: '',
+      content: { algorithm: 'm.megolm.v1.aes-sha2' as const },
+    };
+  }
+
+  /**
+   * DMs come from m.direct (or the invite that created them), channels are rooms open
+   * to outsiders, and every other room is a group
+   */
+  private determineRoomType(room: Room): ChatRoomType {
+    if (room.isSpaceRoom()) return 'space';
+
+    const isListedDirect = Object.values(this.getDirectRooms()).some(roomIds => roomIds.includes(room.roomId));
+    if (isListedDirect || (room.getMyMembership() === 'invite' && room.getDMInviter())) return 'direct';
+
+    const isPublic = room.getJoinRule() === JoinRule.Public;
+    const isWorldReadable = room.getHistoryVisibility() === HistoryVisibility.WorldReadable;
+    if (isPublic || isWorldReadable || room.getCanonicalAlias()) return 'channel';
+
     return 'group';
   }
 
-  private determineMessageType(content: any): 'text' | 'image' | 'file' {
+  private determineMessageType(content: any): NonNullable<ChatMessage['type']> {
     if (content.msgtype === 'm.image') return 'image';
     if (content.msgtype === 'm.file') return 'file';
+    if (content.msgtype === 'm.video') return 'video';
+    if (content.msgtype === 'm.audio') return 'audio';
     return 'text';
   }
 
+  private getMediaMsgType(mimetype: string): MsgType {
+    if (mimetype.startsWith('image/')) return MsgType.Image;
+    if (mimetype.startsWith('video/')) return MsgType.Video;
+    if (mimetype.startsWith('audio/')) return MsgType.Audio;
+    return MsgType.File;
+  }
+
+  /**
+   * Attachment details for m.image/m.file/m.video/m.audio content
+   * Plain uploads carry `url`, encrypted ones carry `file` with the key material
+   */
+  private mapMedia(content: IContent): ChatMedia | undefined {
+    if (this.determineMessageType(content) === 'text') return undefined;
+
+    const encryptedFile: EncryptedFile | undefined = content.file;
+    const url: string | undefined = encryptedFile?.url || content.url;
+    if (!url) return undefined;
+
+    const info = content.info || {};
+    return {
+      url,
+      filename: content.filename || content.body || 'file',
+      mimetype: info.mimetype,
+      size: info.size,
+      width: info.w,
+      height: info.h,
+      duration: info.duration,
+      // Encrypted thumbnails would need their own key; fall back to the full file
+      thumbnailUrl: encryptedFile ? undefined : info.thumbnail_url,
+      encryption: encryptedFile ? {
+        key: encryptedFile.key,
+        iv: encryptedFile.iv,
+        sha256: encryptedFile.hashes.sha256,
+      } : undefined
+    };
+  }
+
+  private async readImageDimensions(file: File): Promise<{ w?: number; h?: number }> {
+    try {
+      const bitmap = await createImageBitmap(file);
+      const dimensions = { w: bitmap.width, h: bitmap.height };
+      bitmap.close();
+      return dimensions;
+    } catch (error) {
+      console.warn('[MatrixAdapter] Could not read image dimensions:', error);
+      return {};
+    }
+  }
+
 
 
   /**
@@ -666,7 +1834,10 @@ export class MatrixAdapter implements ChatPort {
    */
   dispose(): void {
     this.messageCallbacks = [];
+    this.messageUpdateCallbacks = [];
     this.roomCallbacks = [];
+    this.typingCallbacks = [];
+    this.receiptCallbacks = [];
     this.connectionCallbacks = [];
   }
 }
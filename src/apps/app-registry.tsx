@@ -1,7 +1,8 @@
-import { Home, MessageCircle } from 'lucide-react';
+import { Home, MessageCircle, Settings2 } from 'lucide-react';
 import type { FactoryApp } from '@/apps/types/app';
 import { FeedApp } from './feed/FeedApp';
 import { ChatApp } from './chat/ChatApp';
+import { RoomSettingsApp } from './room-settings/RoomSettingsApp';
 
 export const factoryApps: FactoryApp[] = [
   {
@@ -20,6 +21,14 @@ export const factoryApps: FactoryApp[] = [
     description: 'Your content feed and updates',
     defaultWindowTitle: 'Feed',
   },
+  {
+    id: 'room-settings',
+    name: 'Room Settings',
+    icon: Settings2,
+    component: RoomSettingsApp,
+    description: 'Room details, permissions and members',
+    defaultWindowTitle: 'Room settings',
+  },
   // Add more apps here as they are created
 ];
 
@@ -1,23 +1,42 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Button } from '@/ui/button';
-import { Input } from '@/ui/input';
-import { ScrollArea } from '@/ui/scroll-area';
-import { Send, MoreVertical, Loader2 } from 'lucide-react';
+import { Textarea } from '@/ui/textarea';
+import { Send, MoreVertical, Loader2, Pencil, Reply, X, Paperclip, Upload } from 'lucide-react';
 import { useChatPort } from '@/kernel/providers/ServicesProvider';
-import type { ChatMessage, ChatRoom } from '@/kernel/ports/chat';
+import type { ChatMention, ChatMessage, ChatReadReceipt, ChatRoom, ChatUser } from '@/kernel/ports/chat';
+import { useMentionAutocomplete, type MentionSuggestion } from '@/hooks/useMentionAutocomplete';
+import { useChatConnection } from '@/hooks/useChatConnection';
+import { chatOutbox, type OutboxEntry } from '@/services/chat';
+import { matrixKeyBackupService } from '@/services/matrix';
+import { MessageBubble } from './components/MessageBubble';
+import { MessageTimeline } from './components/MessageTimeline';
+import { ThreadPanel } from './components/ThreadPanel';
+import { ReadReceipts, TypingIndicator } from './components/ReadReceipts';
+import { MentionSuggestions, MentionPills } from './components/MentionAutocomplete';
+import { ConnectionBanner } from './components/ConnectionBanner';
+import { KeyRestorePrompt } from './components/KeyRestorePrompt';
+
+// Typing notifications are refreshed while typing and cleared after a short idle
+const TYPING_REFRESH_MS = 20000;
+const TYPING_IDLE_MS = 5000;
+
+const HISTORY_PAGE_SIZE = 50;
 
 interface ChatAppProps {
   chatName?: string;
   chatType?: string;
   roomId?: string;
+  onOpenApp?: (appId: string, props?: Record<string, unknown>) => void;
 }
 
 export const ChatApp: React.FC<ChatAppProps> = ({ 
   chatName = 'General Discussion',
   chatType = 'channel',
-  roomId
+  roomId,
+  onOpenApp
 }) => {
   const chatPort = useChatPort();
+  const connection = useChatConnection(chatPort);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [room, setRoom] = useState<ChatRoom | null>(null);
   const [newMessage, setNewMessage] = useState('');
@@ -25,8 +44,26 @@ export const ChatApp: React.FC<ChatAppProps> = ({
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [typingUsers, setTypingUsers] = useState<ChatUser[]>([]);
+  const [readReceipts, setReadReceipts] = useState<ChatReadReceipt[]>([]);
+  const [upload, setUpload] = useState<{ filename: string; percent: number } | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [showKeyRestore, setShowKeyRestore] = useState(false);
+  const roomIdRef = useRef(roomId);
+  const historyTokenRef = useRef<string | undefined>(undefined);
+  const isLoadingHistoryRef = useRef(false);
+  const lastTypingSentRef = useRef(0);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastReadReceiptRef = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const mentionAutocomplete = useMentionAutocomplete(chatPort, roomId);
 
   // Get current user ID
   useEffect(() => {
@@ -46,6 +83,13 @@ export const ChatApp: React.FC<ChatAppProps> = ({
 
   // Load room details and messages when roomId changes
   useEffect(() => {
+    roomIdRef.current = roomId;
+    historyTokenRef.current = undefined;
+    setHasMoreHistory(false);
+    // Replies and threads belong to the previous room
+    setReplyingTo(null);
+    setActiveThreadId(null);
+
     if (!chatPort || !roomId) {
       setIsLoading(false);
       return;
@@ -74,20 +118,15 @@ export const ChatApp: React.FC<ChatAppProps> = ({
         
         // Load messages for this room
         console.log(`[ChatApp] Getting messages for ${roomId}`);
-        const messageList = await chatPort.getMessages(roomId, 50);
-        console.log(`[ChatApp] Received ${messageList.length} messages`);
+        const page = await chatPort.getMessages(roomId, HISTORY_PAGE_SIZE);
+        console.log(`[ChatApp] Received ${page.messages.length} messages, more history: ${page.hasMore}`);
         
-        // Messages come from the API with newest first, reverse to show oldest first (newest at bottom)
-        const orderedMessages = [...messageList].reverse();
-        console.log(`[ChatApp] First message timestamp: ${orderedMessages[0]?.timestamp}, Last message timestamp: ${orderedMessages[orderedMessages.length - 1]?.timestamp}`);
-        setMessages(orderedMessages);
+        // Pages are ordered oldest first (newest at bottom)
+        historyTokenRef.current = page.nextToken;
+        setHasMoreHistory(page.hasMore);
+        setMessages(page.messages);
         
         setIsLoading(false);
-        
-        // Scroll to bottom after messages load
-        setTimeout(() => {
-          messagesEndRef.current?.scrollIntoView({ behavior: 'instant' });
-        }, 100);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to load room data';
         console.error('[ChatApp] Failed to load room data:', err);
@@ -104,54 +143,192 @@ export const ChatApp: React.FC<ChatAppProps> = ({
     if (!chatPort || !roomId) return;
 
     const unsubscribe = chatPort.onMessage((message) => {
-      if (message.roomId === roomId) {
-        setMessages(prev => [...prev, message]);
-        // Auto-scroll to bottom for new messages
-        setTimeout(() => {
-          messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-        }, 100);
+      // Thread replies belong to the thread panel, not the main timeline
+      if (message.roomId === roomId && !message.threadId) {
+        // Our own messages may already be shown from the send response
+        setMessages(prev => prev.some(m => m.id === message.id)
+          ? prev.map(m => m.id === message.id ? message : m)
+          : [...prev, message]);
       }
     });
 
     return unsubscribe;
   }, [chatPort, roomId]);
 
-  // Scroll to bottom whenever messages change
+  // Listen for in-place message updates (reactions, edits, deletions and late decryption)
+  useEffect(() => {
+    if (!chatPort || !roomId) return;
+
+    const unsubscribe = chatPort.onMessageUpdate((updatedMessage) => {
+      if (updatedMessage.roomId !== roomId) return;
+
+      setMessages(prev => prev.map(message =>
+        message.id === updatedMessage.id ? updatedMessage : message
+      ));
+    });
+
+    return unsubscribe;
+  }, [chatPort, roomId]);
+
+  // Unsent messages are shown as local echoes until the server accepts them
+  useEffect(() => {
+    if (!roomId) return;
+
+    setOutboxEntries(chatOutbox.getEntries(roomId));
+    const unsubscribeChange = chatOutbox.onChange(() => setOutboxEntries(chatOutbox.getEntries(roomId)));
+    const unsubscribeSent = chatOutbox.onSent((entry, message) => {
+      if (entry.roomId === roomId && !message.threadId) {
+        setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      }
+    });
+
+    return () => {
+      unsubscribeChange();
+      unsubscribeSent();
+    };
+  }, [roomId]);
+
+  const timelineMessages = useMemo(() => {
+    const localEchoes = outboxEntries
+      .filter(entry => !entry.options.threadId)
+      .map(entry => chatOutbox.toLocalEcho(entry));
+    return localEchoes.length > 0 ? [...messages, ...localEchoes] : messages;
+  }, [messages, outboxEntries]);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!chatPort || !roomId || isLoadingHistoryRef.current || !hasMoreHistory) return;
+
+    isLoadingHistoryRef.current = true;
+    setIsLoadingHistory(true);
+    try {
+      const page = await chatPort.loadMoreMessages(roomId, historyTokenRef.current, HISTORY_PAGE_SIZE);
+      // The user may have switched rooms while the page was loading
+      if (roomIdRef.current !== roomId) return;
+
+      historyTokenRef.current = page.nextToken;
+      setHasMoreHistory(page.hasMore);
+
+      setMessages(prev => {
+        const known = new Set(prev.map(message => message.id));
+        const older = page.messages.filter(message => !known.has(message.id));
+        return older.length > 0 ? [...older, ...prev] : prev;
+      });
+    } catch (err) {
+      console.error('[ChatApp] Failed to load older messages:', err);
+    } finally {
+      isLoadingHistoryRef.current = false;
+      setIsLoadingHistory(false);
+    }
+  }, [chatPort, roomId, hasMoreHistory]);
+
+  // Receipts grouped by message so each rendered row only looks up its own
+  const receiptsByMessage = useMemo(() => {
+    const grouped = new Map<string, ChatReadReceipt[]>();
+    for (const receipt of readReceipts) {
+      grouped.set(receipt.messageId, [...(grouped.get(receipt.messageId) || []), receipt]);
+    }
+    return grouped;
+  }, [readReceipts]);
+
+  // Typing notifications and read receipts from other members
+  useEffect(() => {
+    if (!chatPort || !roomId) return;
+
+    setTypingUsers([]);
+    setReadReceipts([]);
+    lastReadReceiptRef.current = null;
+
+    chatPort.getReadReceipts(roomId)
+      .then(setReadReceipts)
+      .catch(err => console.error('[ChatApp] Failed to load read receipts:', err));
+
+    const unsubscribeTyping = chatPort.onTyping((event) => {
+      if (event.roomId === roomId) {
+        setTypingUsers(event.users);
+      }
+    });
+
+    const unsubscribeReceipts = chatPort.onReceipt((event) => {
+      if (event.roomId === roomId) {
+        setReadReceipts(event.receipts);
+      }
+    });
+
+    return () => {
+      unsubscribeTyping();
+      unsubscribeReceipts();
+    };
+  }, [chatPort, roomId]);
+
+  // Mark the latest message from someone else as read while the window is visible
   useEffect(() => {
-    // Use a small timeout to ensure DOM has updated
-    const timer = setTimeout(() => {
-      messagesEndRef.current?.scrollIntoView({ behavior: 'instant' });
-    }, 50);
-    return () => clearTimeout(timer);
-  }, [messages]);
-
-  // Listen for room updates (including when messages get decrypted)
+    if (!chatPort || !roomId) return;
+
+    const sendLatestReceipt = () => {
+      if (document.visibilityState !== 'visible') return;
+
+      const latest = [...messages].reverse().find(message => message.sender !== currentUserId);
+      if (!latest || latest.id === lastReadReceiptRef.current) return;
+
+      lastReadReceiptRef.current = latest.id;
+      chatPort.sendReadReceipt(roomId, latest.id).catch(err => {
+        console.error('[ChatApp] Failed to send read receipt:', err);
+      });
+    };
+
+    sendLatestReceipt();
+    document.addEventListener('visibilitychange', sendLatestReceipt);
+    return () => document.removeEventListener('visibilitychange', sendLatestReceipt);
+  }, [chatPort, roomId, messages, currentUserId]);
+
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+    if (!chatPort || !roomId || lastTypingSentRef.current === 0) return;
+
+    lastTypingSentRef.current = 0;
+    chatPort.sendTyping(roomId, false).catch(err => {
+      console.error('[ChatApp] Failed to clear typing state:', err);
+    });
+  }, [chatPort, roomId]);
+
+  // Clear our typing state when leaving the room
+  useEffect(() => stopTyping, [stopTyping]);
+
+  const handleComposerChange = (value: string, caret: number) => {
+    setNewMessage(value);
+    mentionAutocomplete.updateTrigger(value, caret);
+    mentionAutocomplete.pruneMentions(value);
+    if (!chatPort || !roomId) return;
+
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > TYPING_REFRESH_MS) {
+      lastTypingSentRef.current = now;
+      chatPort.sendTyping(roomId, true).catch(err => {
+        console.error('[ChatApp] Failed to send typing state:', err);
+      });
+    }
+
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+    }
+    typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  // Listen for room updates
   useEffect(() => {
     if (!chatPort || !roomId) return;
 
-    const unsubscribe = chatPort.onRoomUpdate(async (updatedRoom) => {
+    const unsubscribe = chatPort.onRoomUpdate((updatedRoom) => {
       if (updatedRoom.id === roomId) {
         setRoom(updatedRoom);
-        
-        // Check current messages for encrypted placeholders that might decrypt later
-        setMessages(prevMessages => {
-          const hasEncryptedPlaceholders = prevMessages.some(msg => 
-            msg.content.includes('Failed to decrypt')
-          );
-          
-          if (hasEncryptedPlaceholders) {
-            console.log('[ChatApp] Detected failed decryption messages, attempting to reload...');
-            // Reload messages asynchronously to see if any can now be decrypted
-            chatPort.getMessages(roomId, 50).then(messageList => {
-              // Ensure proper ordering: oldest first, newest at bottom
-              setMessages([...messageList].reverse());
-            }).catch(err => {
-              console.error('[ChatApp] Failed to reload messages:', err);
-            });
-          }
-          
-          return prevMessages; // Return unchanged for now
-        });
       }
     });
 
@@ -162,31 +339,175 @@ export const ChatApp: React.FC<ChatAppProps> = ({
     e.preventDefault();
     if (!newMessage.trim() || !chatPort || !roomId || isSending) return;
 
+    stopTyping();
+
+    // New messages go through the outbox, which shows them immediately and retries on failure
+    if (!editingMessage) {
+      const content = newMessage.trim();
+      const options = { inReplyTo: replyingTo?.id, mentions: mentionAutocomplete.getMessageMentions(newMessage) };
+      setNewMessage('');
+      setReplyingTo(null);
+      mentionAutocomplete.reset();
+
+      chatOutbox.enqueue(roomId, content, options).catch(err => {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
+        console.error('Failed to queue message:', err);
+        setError(errorMessage);
+        setNewMessage(content);
+      });
+      return;
+    }
+
     setIsSending(true);
     try {
-      await chatPort.sendMessage(roomId, newMessage.trim());
+      await chatPort.editMessage(roomId, editingMessage.id, newMessage.trim(), mentionAutocomplete.getMessageMentions(newMessage));
+      setEditingMessage(null);
       setNewMessage('');
+      mentionAutocomplete.reset();
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
-      console.error('Failed to send message:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to edit message';
+      console.error('Failed to edit message:', err);
       setError(errorMessage);
     } finally {
       setIsSending(false);
     }
   };
 
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit',
-      hour12: false
+  // Upload files one after another so progress reflects a single transfer
+  const handleUploadFiles = async (files: File[]) => {
+    if (!chatPort || !roomId || files.length === 0 || upload) return;
+
+    try {
+      for (const file of files) {
+        setUpload({ filename: file.name, percent: 0 });
+        const message = await chatPort.sendMedia(roomId, file, {
+          inReplyTo: replyingTo?.id,
+          onProgress: (loaded, total) => {
+            setUpload({ filename: file.name, percent: total ? Math.round((loaded / total) * 100) : 0 });
+          }
+        });
+        setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      }
+      setReplyingTo(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to upload file';
+      console.error('Failed to upload file:', err);
+      setError(errorMessage);
+    } finally {
+      setUpload(null);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    handleUploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleUploadFiles(files);
+  };
+
+  const handleToggleReaction = async (messageId: string, key: string, includesMe: boolean) => {
+    if (!chatPort || !roomId) return;
+
+    try {
+      if (includesMe) {
+        await chatPort.removeReaction(roomId, messageId, key);
+      } else {
+        await chatPort.addReaction(roomId, messageId, key);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update reaction';
+      console.error('Failed to update reaction:', err);
+      setError(errorMessage);
+    }
+  };
+
+  const handleStartReply = (message: ChatMessage) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const handleStartEdit = (message: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+    mentionAutocomplete.seedMentions(message.content, message.mentions || []);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+    mentionAutocomplete.reset();
+  };
+
+  const handleSelectMention = (suggestion: MentionSuggestion) => {
+    const result = mentionAutocomplete.applySuggestion(newMessage, suggestion);
+    if (!result) return;
+
+    setNewMessage(result.value);
+    // Restore the caret after React applies the new value
+    requestAnimationFrame(() => {
+      composerRef.current?.focus();
+      composerRef.current?.setSelectionRange(result.caret, result.caret);
     });
   };
 
+  // Removing a pill removes its text from the message too
+  const handleRemoveMention = (mention: ChatMention) => {
+    setNewMessage(mentionAutocomplete.removeMention(newMessage, mention));
+  };
+
+  const handleDeleteMessage = async (message: ChatMessage) => {
+    if (!chatPort || !roomId) return;
+    if (!window.confirm('Delete this message? This cannot be undone.')) return;
+
+    try {
+      await chatPort.deleteMessage(roomId, message.id);
+      if (editingMessage?.id === message.id) {
+        handleCancelEdit();
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete message';
+      console.error('Failed to delete message:', err);
+      setError(errorMessage);
+    }
+  };
+
+  const handleRetryDecryption = async (message: ChatMessage) => {
+    if (!chatPort || !roomId) return;
+
+    // A successful retry replaces the message through onMessageUpdate
+    try {
+      await chatPort.retryDecryption(roomId, message.id);
+    } catch (err) {
+      console.error('Failed to retry decryption:', err);
+      setError(err instanceof Error ? err.message : 'Failed to retry decryption');
+    }
+  };
+
   const getChatIcon = () => {
     const type = room?.type || chatType;
-    if (type === 'channel' || room?.name.startsWith('#')) return '#';
+    if (type === 'channel') return '#';
     if (type === 'direct') return '👤';
+    if (type === 'space') return '🗂️';
     return '💬';
   };
 
@@ -196,8 +517,9 @@ export const ChatApp: React.FC<ChatAppProps> = ({
 
   const getChatTypeLabel = () => {
     const type = room?.type || chatType;
-    if (type === 'channel' || room?.name.startsWith('#')) return 'Channel';
+    if (type === 'channel') return 'Channel';
     if (type === 'direct') return 'Direct Message';
+    if (type === 'space') return 'Space';
     return 'Group Chat';
   };
 
@@ -237,11 +559,19 @@ export const ChatApp: React.FC<ChatAppProps> = ({
             {getChatTypeLabel()}
           </span>
         </div>
-        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+          onClick={() => onOpenApp?.('room-settings', { roomId })}
+          aria-label="Room settings"
+        >
           <MoreVertical className="h-4 w-4" />
         </Button>
       </div>
 
+      <ConnectionBanner state={connection} onRetry={() => chatPort?.reconnectNow()} />
+
       {/* Error display */}
       {error && (
         <div className="bg-destructive/10 text-destructive px-4 py-2 text-sm">
@@ -249,74 +579,207 @@ export const ChatApp: React.FC<ChatAppProps> = ({
         </div>
       )}
 
-      {/* Messages Area */}
-      <ScrollArea className="flex-1 overflow-y-auto" ref={scrollAreaRef}>
-        <div className="space-y-4 p-4">
-          {messages.length === 0 ? (
-            <div className="text-center text-muted-foreground text-sm py-8">
-              No messages yet. Start a conversation!
+      <div className="flex flex-1 min-h-0">
+        <div
+          className="relative flex flex-1 flex-col min-w-0"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {/* Drop target overlay */}
+          {isDraggingFiles && (
+            <div className="absolute inset-0 z-20 flex items-center justify-center border-2 border-dashed border-primary bg-background/80 pointer-events-none">
+              <div className="flex items-center gap-2 text-sm text-foreground">
+                <Upload className="h-4 w-4" />
+                Drop files to send to {getChatName()}
+              </div>
             </div>
-          ) : (
-            messages.map((message) => {
+          )}
+
+          {/* Messages Area */}
+          <MessageTimeline
+            key={roomId}
+            messages={timelineMessages}
+            hasMoreHistory={hasMoreHistory}
+            isLoadingHistory={isLoadingHistory}
+            onLoadOlder={loadOlderMessages}
+            renderMessage={(message) => {
               const isOwnMessage = message.sender === currentUserId;
-              const senderName = message.sender.split(':')[0].substring(1); // Extract username from @user:server format
-              
+
               return (
-                <div
-                  key={message.id}
-                  className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
-                >
-                  <div
-                    className={`max-w-[70%] ${
-                      isOwnMessage
-                        ? 'bg-primary text-primary-foreground'
-                        : 'bg-muted text-foreground'
-                    } rounded-lg p-3`}
-                  >
-                    {!isOwnMessage && (
-                      <div className="text-xs text-muted-foreground mb-1 font-medium">
-                        {senderName}
-                      </div>
-                    )}
-                    <div className="text-sm break-words whitespace-pre-wrap overflow-wrap-anywhere">
-                      {message.content}
-                    </div>
-                    <div className={`text-xs mt-1 ${
-                      isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground'
-                    }`}>
-                      {formatTime(message.timestamp)}
-                    </div>
-                  </div>
-                </div>
+                <>
+                  <MessageBubble
+                    message={message}
+                    isOwnMessage={isOwnMessage}
+                    onToggleReaction={(key, includesMe) => handleToggleReaction(message.id, key, includesMe)}
+                    onEdit={isOwnMessage ? () => handleStartEdit(message) : undefined}
+                    onDelete={isOwnMessage ? () => handleDeleteMessage(message) : undefined}
+                    onReply={() => handleStartReply(message)}
+                    onOpenThread={() => setActiveThreadId(message.id)}
+                    onRetry={() => chatOutbox.retry(message.id)}
+                    onDiscard={() => chatOutbox.discard(message.id)}
+                    onRetryDecryption={() => handleRetryDecryption(message)}
+                    onRestoreKeys={() => setShowKeyRestore(true)}
+                  />
+                  <ReadReceipts receipts={receiptsByMessage.get(message.id) || []} isOwnMessage={isOwnMessage} />
+                </>
               );
-            })
-          )}
-          <div ref={messagesEndRef} />
-        </div>
-      </ScrollArea>
-
-      {/* Message Input */}
-      <div className="p-4 border-t border-border flex-shrink-0">
-        <form onSubmit={handleSendMessage} className="flex space-x-2">
-          <Input
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder={`Message ${getChatName()}...`}
-            className="flex-1 bg-background border-input text-foreground placeholder:text-muted-foreground focus:border-ring min-w-0"
+            }}
           />
-          <Button 
-            type="submit" 
-            size="sm"
-            disabled={!newMessage.trim() || isSending || !chatPort}
-            className="bg-primary hover:bg-primary/90 text-primary-foreground"
-          >
-            {isSending ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
+
+          {/* Message Input */}
+          <div className="p-4 border-t border-border flex-shrink-0">
+            <TypingIndicator users={typingUsers} />
+            <MentionPills mentions={mentionAutocomplete.mentions} onRemove={handleRemoveMention} />
+            {showKeyRestore && (
+              <KeyRestorePrompt
+                onRestore={async (recoveryKeyOrPassphrase) => {
+                  // Waiting messages are re-announced through onMessageUpdate as their keys arrive
+                  await matrixKeyBackupService.restore(recoveryKeyOrPassphrase);
+                }}
+                onClose={() => setShowKeyRestore(false)}
+              />
             )}
-          </Button>
-        </form>
+            {upload && (
+              <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin flex-shrink-0" />
+                <span className="truncate">Uploading {upload.filename}</span>
+                <span className="flex-shrink-0">{upload.percent}%</span>
+              </div>
+            )}
+            {editingMessage && (
+              <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Pencil className="h-3 w-3" />
+                  Editing message
+                </span>
+                <button
+                  type="button"
+                  onClick={handleCancelEdit}
+                  className="hover:text-foreground transition-colors"
+                  aria-label="Cancel editing"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+            {replyingTo && (
+              <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1 min-w-0">
+                  <Reply className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">
+                    Replying to {replyingTo.sender.split(':')[0].substring(1)}: {replyingTo.content}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setReplyingTo(null)}
+                  className="hover:text-foreground transition-colors"
+                  aria-label="Cancel reply"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+            <form onSubmit={handleSendMessage} className="relative flex items-end space-x-2">
+              {mentionAutocomplete.isOpen && (
+                <MentionSuggestions
+                  suggestions={mentionAutocomplete.suggestions}
+                  activeIndex={mentionAutocomplete.activeIndex}
+                  onSelect={handleSelectMention}
+                />
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handleUploadFiles(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!chatPort || !!upload || !!editingMessage}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label="Attach files"
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
+              <Textarea
+                ref={composerRef}
+                rows={1}
+                value={newMessage}
+                onChange={(e) => handleComposerChange(e.target.value, e.target.selectionStart)}
+                onSelect={(e) => mentionAutocomplete.updateTrigger(e.currentTarget.value, e.currentTarget.selectionStart)}
+                onBlur={() => {
+                  stopTyping();
+                  mentionAutocomplete.close();
+                }}
+                onPaste={handlePaste}
+                onKeyDown={(e) => {
+                  // While suggesting, arrows move, Enter/Tab pick and Escape dismisses
+                  if (mentionAutocomplete.isOpen) {
+                    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                      e.preventDefault();
+                      mentionAutocomplete.moveSelection(e.key === 'ArrowDown' ? 1 : -1);
+                      return;
+                    }
+                    if (e.key === 'Enter' || e.key === 'Tab') {
+                      e.preventDefault();
+                      handleSelectMention(mentionAutocomplete.suggestions[mentionAutocomplete.activeIndex]);
+                      return;
+                    }
+                    if (e.key === 'Escape') {
+                      e.preventDefault();
+                      mentionAutocomplete.close();
+                      return;
+                    }
+                  }
+
+                  // Enter sends, Shift+Enter adds a line (Markdown is supported)
+                  if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                    e.preventDefault();
+                    e.currentTarget.form?.requestSubmit();
+                  } else if (e.key === 'Escape' && editingMessage) {
+                    handleCancelEdit();
+                  } else if (e.key === 'Escape' && replyingTo) {
+                    setReplyingTo(null);
+                  }
+                }}
+                placeholder={editingMessage ? 'Edit message...' : `Message ${getChatName()}...`}
+                className="flex-1 bg-background border-input text-foreground placeholder:text-muted-foreground focus:border-ring min-w-0"
+              />
+              <Button 
+                type="submit" 
+                size="sm"
+                disabled={!newMessage.trim() || isSending || !chatPort}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                {isSending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </form>
+          </div>
+        </div>
+
+        {/* Thread side panel */}
+        {activeThreadId && chatPort && (
+          <ThreadPanel
+            chatPort={chatPort}
+            roomId={roomId}
+            threadId={activeThreadId}
+            currentUserId={currentUserId}
+            onClose={() => setActiveThreadId(null)}
+          />
+        )}
       </div>
     </div>
   );
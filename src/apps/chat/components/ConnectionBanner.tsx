@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, WifiOff, AlertTriangle } from 'lucide-react';
+import { Button } from '@/ui/button';
+import type { ChatConnectionState } from '@/kernel/ports/chat';
+
+interface ConnectionBannerProps {
+  state: ChatConnectionState;
+  onRetry: () => void;
+}
+
+// Seconds until the next attempt, re-rendered every second while counting down
+const useSecondsUntil = (timestamp: number | undefined) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!timestamp) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timestamp]);
+
+  return timestamp ? Math.max(0, Math.ceil((timestamp - now) / 1000)) : undefined;
+};
+
+/**
+ * Strip under the chat header explaining why messages may be stale
+ * Hidden while the connection is live or still starting up
+ */
+export const ConnectionBanner: React.FC<ConnectionBannerProps> = ({ state, onRetry }) => {
+  const secondsUntilRetry = useSecondsUntil(state.status === 'reconnecting' ? state.nextRetryAt : undefined);
+
+  if (state.status === 'catching-up') {
+    return (
+      <div className="flex items-center gap-2 bg-muted px-4 py-2 text-sm text-muted-foreground" role="status">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Back online, catching up on messages...
+      </div>
+    );
+  }
+
+  if (state.status === 'reconnecting') {
+    return (
+      <div className="flex items-center gap-2 bg-muted px-4 py-2 text-sm text-muted-foreground" role="status">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="flex-1">
+          Connection lost.{' '}
+          {secondsUntilRetry ? `Reconnecting in ${secondsUntilRetry}s` : 'Reconnecting...'}
+          {state.attempt > 1 && ` (attempt ${state.attempt})`}
+        </span>
+        <Button variant="ghost" size="sm" className="h-7" onClick={onRetry}>
+          Retry now
+        </Button>
+      </div>
+    );
+  }
+
+  if (state.status === 'offline') {
+    return (
+      <div className="flex items-center gap-2 bg-muted px-4 py-2 text-sm text-muted-foreground" role="status">
+        <WifiOff className="h-4 w-4" />
+        <span className="flex-1">You're offline. Messages will be sent when the connection returns.</span>
+        <Button variant="ghost" size="sm" className="h-7" onClick={onRetry}>
+          Retry now
+        </Button>
+      </div>
+    );
+  }
+
+  if (state.status === 'auth-failed') {
+    return (
+      <div className="flex items-center gap-2 bg-destructive/10 px-4 py-2 text-sm text-destructive" role="alert">
+        <AlertTriangle className="h-4 w-4" />
+        Your session has expired. Sign in again to keep chatting.
+      </div>
+    );
+  }
+
+  return null;
+};
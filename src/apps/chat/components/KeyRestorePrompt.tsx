@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2, X } from 'lucide-react';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+
+interface KeyRestorePromptProps {
+  onRestore: (recoveryKeyOrPassphrase: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Unlocks the key backup from the chat, so messages waiting on it can be read
+ */
+export const KeyRestorePrompt: React.FC<KeyRestorePromptProps> = ({ onRestore, onClose }) => {
+  const [input, setInput] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isRestoring) return;
+
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(input.trim());
+      onClose();
+    } catch (err) {
+      console.error('[KeyRestorePrompt] Failed to restore keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore keys');
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-2 space-y-2 rounded-md border border-border p-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <KeyRound className="h-3 w-3" />
+          Enter your recovery key or passphrase to read older encrypted messages
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="hover:text-foreground transition-colors"
+          aria-label="Close"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Recovery key or passphrase"
+          disabled={isRestoring}
+          autoFocus
+        />
+        <Button type="submit" size="sm" disabled={!input.trim() || isRestoring}>
+          {isRestoring && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          Restore
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </form>
+  );
+};
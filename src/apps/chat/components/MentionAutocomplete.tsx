@@ -0,0 +1,101 @@
+import React from 'react';
+import { Hash, X } from 'lucide-react';
+import { Avatar, AvatarImage, AvatarFallback } from '@/ui/avatar';
+import type { ChatMention } from '@/kernel/ports/chat';
+import type { MentionSuggestion } from '@/hooks/useMentionAutocomplete';
+import { useMediaUrl } from '@/hooks/useMediaUrl';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: MentionSuggestion) => void;
+}
+
+/**
+ * Autocomplete list shown above the composer while typing @ or #
+ * Positioned inline rather than in a portal so it renders above the owning window
+ */
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({
+  suggestions,
+  activeIndex,
+  onSelect
+}) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div
+      role="listbox"
+      className="absolute bottom-full left-0 right-0 mb-2 z-30 max-h-64 overflow-y-auto rounded-md border border-border bg-background/95 py-1 shadow-md"
+    >
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={`${suggestion.type}-${suggestion.id}`}
+          type="button"
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${
+            index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+          }`}
+        >
+          {suggestion.type === 'user' ? (
+            <SuggestionAvatar suggestion={suggestion} />
+          ) : (
+            <Hash className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          )}
+          <span className="truncate font-medium">{suggestion.label}</span>
+          <span className="ml-auto truncate text-xs text-muted-foreground">{suggestion.detail}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const SuggestionAvatar: React.FC<{ suggestion: MentionSuggestion }> = ({ suggestion }) => {
+  const avatarSrc = useMediaUrl(suggestion.avatarUrl, { width: 32, height: 32, method: 'crop' });
+
+  return (
+    <Avatar className="h-5 w-5">
+      {avatarSrc && <AvatarImage src={avatarSrc} alt={suggestion.label} />}
+      <AvatarFallback className="text-[10px]">
+        {suggestion.label.charAt(0).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+};
+
+interface MentionPillsProps {
+  mentions: ChatMention[];
+  onRemove: (mention: ChatMention) => void;
+}
+
+/**
+ * Pills for the mentions in the message being composed
+ */
+export const MentionPills: React.FC<MentionPillsProps> = ({ mentions, onRemove }) => {
+  if (mentions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mb-2">
+      {mentions.map((mention) => (
+        <span
+          key={`${mention.id}-${mention.start}`}
+          className="flex items-center gap-1 rounded-full bg-primary/15 px-2 py-0.5 text-xs text-foreground"
+          title={mention.id}
+        >
+          {mention.text}
+          <button
+            type="button"
+            onClick={() => onRemove(mention)}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            aria-label={`Remove ${mention.text}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React from 'react';
+import { Pencil, Trash2, Ban, Reply, MessagesSquare, Clock, Check, AlertCircle, Lock } from 'lucide-react';
+import type { ChatDecryptionFailure, ChatMessage } from '@/kernel/ports/chat';
+import { MessageReactions, QuickReactionBar } from './MessageReactions';
+import { MessageMedia } from './MessageMedia';
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  isOwnMessage: boolean;
+  onToggleReaction: (key: string, includesMe: boolean) => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onReply?: () => void;
+  onOpenThread?: () => void;
+  onRetry?: () => void;
+  onDiscard?: () => void;
+  onRetryDecryption?: () => void;
+  onRestoreKeys?: () => void;
+}
+
+const getUsername = (userId: string) => userId.split(':')[0].substring(1); // Extract username from @user:server format
+
+// Spoilers stay blurred until clicked
+const revealSpoiler = (e: React.MouseEvent) => {
+  const spoiler = (e.target as HTMLElement).closest('[data-mx-spoiler]');
+  spoiler?.setAttribute('data-revealed', '');
+};
+
+const DECRYPTION_FAILURE_TEXT: Record<ChatDecryptionFailure, string> = {
+  'missing-keys': "This message's key hasn't reached this device yet.",
+  'withheld': 'The sender chose not to share the key for this message.',
+  'unverified-device': 'The sender only shares keys with verified devices. Verify this device in Settings → Security.',
+  'backup-available': 'The key for this message is in your key backup.',
+};
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+/**
+ * A single message in the chat timeline, with its hover actions and reactions
+ */
+export const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  isOwnMessage,
+  onToggleReaction,
+  onEdit,
+  onDelete,
+  onReply,
+  onOpenThread,
+  onRetry,
+  onDiscard,
+  onRetryDecryption,
+  onRestoreKeys
+}) => {
+  const senderName = getUsername(message.sender);
+  // Media bodies are just the file name unless the sender added a caption
+  const showText = !message.media || message.content !== message.media.filename;
+  const actionButtonClass = 'rounded-full p-1 text-muted-foreground hover:text-foreground hover:bg-accent transition-colors';
+  // Not on the server yet, so there is nothing to react to, reply to or edit
+  const isLocalEcho = message.sendStatus === 'pending' || message.sendStatus === 'failed';
+
+  // Deleted messages keep their place in the timeline but lose their content and actions
+  if (message.isRedacted) {
+    return (
+      <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+        <div className="max-w-[70%] rounded-lg p-3 border border-dashed border-border text-muted-foreground">
+          {!isOwnMessage && (
+            <div className="text-xs mb-1 font-medium">
+              {senderName}
+            </div>
+          )}
+          <div className="flex items-center gap-1 text-sm italic">
+            <Ban className="h-3 w-3" />
+            Message deleted
+          </div>
+          <div className="text-xs mt-1">
+            {formatTime(message.timestamp)}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`group relative flex flex-col ${isOwnMessage ? 'items-end' : 'items-start'}`}>
+      {/* Hover actions */}
+      {!isLocalEcho && (
+        <div className={`absolute -top-3 z-10 hidden group-hover:flex items-center gap-1 ${isOwnMessage ? 'right-2' : 'left-2'}`}>
+          <QuickReactionBar onReact={(key) => onToggleReaction(key, false)} />
+          {(onReply || onOpenThread || (isOwnMessage && (onEdit || onDelete))) && (
+            <div className="flex items-center gap-0.5 rounded-full border border-border bg-background/95 px-1 py-0.5 shadow-sm">
+              {onReply && (
+                <button
+                  type="button"
+                  onClick={onReply}
+                  className={actionButtonClass}
+                  aria-label="Reply"
+                >
+                  <Reply className="h-3 w-3" />
+                </button>
+              )}
+              {onOpenThread && (
+                <button
+                  type="button"
+                  onClick={onOpenThread}
+                  className={actionButtonClass}
+                  aria-label="Reply in thread"
+                >
+                  <MessagesSquare className="h-3 w-3" />
+                </button>
+              )}
+              {isOwnMessage && onEdit && (
+                <button
+                  type="button"
+                  onClick={onEdit}
+                  className={actionButtonClass}
+                  aria-label="Edit message"
+                >
+                  <Pencil className="h-3 w-3" />
+                </button>
+              )}
+              {isOwnMessage && onDelete && (
+                <button
+                  type="button"
+                  onClick={onDelete}
+                  className="rounded-full p-1 text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                  aria-label="Delete message"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div
+        className={`max-w-[70%] ${message.sendStatus === 'pending' ? 'opacity-70' : ''} ${
+          isOwnMessage
+            ? 'bg-primary text-primary-foreground'
+            : message.mentionsMe
+              ? 'bg-primary/15 text-foreground ring-1 ring-primary/60'
+              : 'bg-muted text-foreground'
+        } rounded-lg p-3`}
+      >
+        {!isOwnMessage && (
+          <div className="text-xs text-muted-foreground mb-1 font-medium">
+            {senderName}
+          </div>
+        )}
+        {message.inReplyTo && (
+          <div className={`mb-2 border-l-2 pl-2 text-xs ${
+            isOwnMessage ? 'border-primary-foreground/50 text-primary-foreground/80' : 'border-border text-muted-foreground'
+          }`}>
+            {message.inReplyTo.sender ? (
+              <>
+                <div className="font-medium">{getUsername(message.inReplyTo.sender)}</div>
+                <div className="line-clamp-2 break-words">
+                  {message.inReplyTo.content || 'Message deleted'}
+                </div>
+              </>
+            ) : (
+              <div className="italic">Original message not loaded</div>
+            )}
+          </div>
+        )}
+        {message.media && (
+          <div className={showText ? 'mb-2' : undefined}>
+            <MessageMedia message={message} isOwnMessage={isOwnMessage} />
+          </div>
+        )}
+        {message.decryptionFailure ? (
+          <div className="text-sm italic">
+            <div className="flex items-center gap-1">
+              <Lock className="h-3 w-3 flex-shrink-0" />
+              Unable to decrypt message
+            </div>
+            <div className={`mt-1 text-xs not-italic ${isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+              {DECRYPTION_FAILURE_TEXT[message.decryptionFailure]}
+            </div>
+          </div>
+        ) : showText && (message.formattedContent ? (
+          // formattedContent is sanitized against the Matrix allow-list by the adapter
+          <div
+            className="chat-html text-sm break-words overflow-wrap-anywhere"
+            onClick={revealSpoiler}
+            dangerouslySetInnerHTML={{ __html: message.formattedContent }}
+          />
+        ) : (
+          <div className="text-sm break-words whitespace-pre-wrap overflow-wrap-anywhere">
+            {message.content}
+          </div>
+        ))}
+        <div className={`text-xs mt-1 ${
+          isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground'
+        }`}>
+          {formatTime(message.timestamp)}
+          {message.isEdited && <span className="ml-1">(edited)</span>}
+          {message.sendStatus === 'pending' && <Clock className="ml-1 inline h-3 w-3" aria-label="Sending" />}
+          {message.sendStatus === 'sent' && <Check className="ml-1 inline h-3 w-3" aria-label="Sent" />}
+        </div>
+      </div>
+
+      {message.sendStatus === 'failed' && (
+        <div className="mt-1 flex items-center gap-2 text-xs text-destructive">
+          <AlertCircle className="h-3 w-3" />
+          Failed to send
+          {onRetry && (
+            <button type="button" onClick={onRetry} className="font-medium hover:underline">
+              Retry
+            </button>
+          )}
+          {onDiscard && (
+            <button type="button" onClick={onDiscard} className="text-muted-foreground hover:text-foreground hover:underline">
+              Discard
+            </button>
+          )}
+        </div>
+      )}
+
+      {message.decryptionFailure && (
+        <div className="mt-1 flex items-center gap-2 text-xs">
+          {message.decryptionFailure === 'backup-available' && onRestoreKeys ? (
+            <button type="button" onClick={onRestoreKeys} className="font-medium text-primary hover:underline">
+              Restore from backup
+            </button>
+          ) : message.decryptionFailure !== 'withheld' && onRetryDecryption && (
+            <button type="button" onClick={onRetryDecryption} className="font-medium text-primary hover:underline">
+              Request keys
+            </button>
+          )}
+        </div>
+      )}
+
+      <MessageReactions
+        reactions={message.reactions}
+        isOwnMessage={isOwnMessage}
+        onToggle={onToggleReaction}
+      />
+
+      {message.threadSummary && onOpenThread && (
+        <button
+          type="button"
+          onClick={onOpenThread}
+          className="mt-1 flex items-center gap-1 text-xs text-primary hover:underline"
+        >
+          <MessagesSquare className="h-3 w-3" />
+          {message.threadSummary.replyCount} {message.threadSummary.replyCount === 1 ? 'reply' : 'replies'}
+          {message.threadSummary.latestReplyTimestamp && (
+            <span className="text-muted-foreground">
+              · last {formatTime(message.threadSummary.latestReplyTimestamp)}
+            </span>
+          )}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { FileText, Download, Loader2, ImageOff } from 'lucide-react';
+import type { ChatMedia, ChatMessage } from '@/kernel/ports/chat';
+import { useMediaUrl } from '@/hooks/useMediaUrl';
+import { matrixMediaResolver } from '@/services/matrix';
+
+// Bounding box for inline previews; the server scales thumbnails to fit
+const PREVIEW_WIDTH = 320;
+const PREVIEW_HEIGHT = 240;
+
+const formatFileSize = (bytes?: number) => {
+  if (bytes === undefined) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Scale the original dimensions into the preview box so layout doesn't jump on load
+const getPreviewSize = (media: ChatMedia) => {
+  if (!media.width || !media.height) return undefined;
+  const scale = Math.min(PREVIEW_WIDTH / media.width, PREVIEW_HEIGHT / media.height, 1);
+  return { width: Math.round(media.width * scale), height: Math.round(media.height * scale) };
+};
+
+interface MessageMediaProps {
+  message: ChatMessage;
+  isOwnMessage: boolean;
+}
+
+/**
+ * Inline attachment for media messages: image and video previews, audio player or a file card
+ */
+export const MessageMedia: React.FC<MessageMediaProps> = ({ message, isOwnMessage }) => {
+  const media = message.media;
+  if (!media) return null;
+
+  if (message.type === 'image') {
+    return <ImagePreview media={media} />;
+  }
+
+  if (message.type === 'video' || message.type === 'audio') {
+    return <PlayableMedia media={media} kind={message.type} isOwnMessage={isOwnMessage} />;
+  }
+
+  return <FileCard media={media} isOwnMessage={isOwnMessage} />;
+};
+
+const ImagePreview: React.FC<{ media: ChatMedia }> = ({ media }) => {
+  const previewSize = getPreviewSize(media);
+  const thumbnailSrc = useMediaUrl(media.thumbnailUrl || media.url, {
+    width: PREVIEW_WIDTH,
+    height: PREVIEW_HEIGHT,
+    method: 'scale',
+    encryption: media.encryption,
+    mimetype: media.mimetype,
+  });
+  const [failed, setFailed] = useState(false);
+
+  const handleOpen = async () => {
+    const fullSrc = await matrixMediaResolver.resolve(media.url, {
+      encryption: media.encryption,
+      mimetype: media.mimetype,
+    });
+    if (fullSrc) {
+      window.open(fullSrc, '_blank', 'noopener');
+    }
+  };
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 text-xs opacity-80">
+        <ImageOff className="h-4 w-4" />
+        {media.filename}
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleOpen}
+      className="block overflow-hidden rounded-md bg-background/20"
+      style={previewSize}
+      aria-label={`Open ${media.filename}`}
+    >
+      {thumbnailSrc ? (
+        <img
+          src={thumbnailSrc}
+          alt={media.filename}
+          className="h-full w-full object-contain"
+          style={{ maxWidth: PREVIEW_WIDTH, maxHeight: PREVIEW_HEIGHT }}
+          onError={() => setFailed(true)}
+        />
+      ) : (
+        <div className="flex h-24 w-32 items-center justify-center">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      )}
+    </button>
+  );
+};
+
+const PlayableMedia: React.FC<{ media: ChatMedia; kind: 'video' | 'audio'; isOwnMessage: boolean }> = ({
+  media,
+  kind,
+  isOwnMessage
+}) => {
+  const src = useMediaUrl(media.url, { encryption: media.encryption, mimetype: media.mimetype });
+
+  if (!src) {
+    return <FileCard media={media} isOwnMessage={isOwnMessage} />;
+  }
+
+  if (kind === 'audio') {
+    return <audio controls src={src} className="max-w-full" />;
+  }
+
+  return (
+    <video
+      controls
+      src={src}
+      className="rounded-md"
+      style={{ ...getPreviewSize(media), maxWidth: PREVIEW_WIDTH, maxHeight: PREVIEW_HEIGHT }}
+    />
+  );
+};
+
+const FileCard: React.FC<{ media: ChatMedia; isOwnMessage: boolean }> = ({ media, isOwnMessage }) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await matrixMediaResolver.download(media.url, media.filename, {
+        encryption: media.encryption,
+        mimetype: media.mimetype,
+      });
+    } catch (err) {
+      console.error('[MessageMedia] Failed to download file:', err);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-3 rounded-md border px-3 py-2 ${
+      isOwnMessage ? 'border-primary-foreground/30' : 'border-border'
+    }`}>
+      <FileText className="h-6 w-6 flex-shrink-0" />
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm font-medium">{media.filename}</div>
+        <div className="text-xs opacity-70">{formatFileSize(media.size)}</div>
+      </div>
+      <button
+        type="button"
+        onClick={handleDownload}
+        disabled={isDownloading}
+        className="rounded-full p-1 hover:bg-accent/40 transition-colors"
+        aria-label={`Download ${media.filename}`}
+      >
+        {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { SmilePlus } from 'lucide-react';
+import type { ChatReaction } from '@/kernel/ports/chat';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '😮', '😢'];
+
+interface MessageReactionsProps {
+  reactions?: ChatReaction[];
+  isOwnMessage: boolean;
+  onToggle: (key: string, includesMe: boolean) => void;
+}
+
+/**
+ * Reaction chips shown under a message bubble
+ * Clicking a chip toggles the current user's reaction with that key
+ */
+export const MessageReactions: React.FC<MessageReactionsProps> = ({
+  reactions,
+  isOwnMessage,
+  onToggle
+}) => {
+  if (!reactions || reactions.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.key}
+          type="button"
+          title={reaction.senders.map(sender => sender.split(':')[0].substring(1)).join(', ')}
+          onClick={() => onToggle(reaction.key, reaction.includesMe)}
+          className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+            reaction.includesMe
+              ? 'border-primary bg-primary/15 text-foreground'
+              : 'border-border bg-muted/60 text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          <span>{reaction.key}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface QuickReactionBarProps {
+  onReact: (key: string) => void;
+}
+
+/**
+ * Hover toolbar with a small set of one-click reactions
+ * Rendered inline (not in a portal) so it stays above the owning window
+ */
+export const QuickReactionBar: React.FC<QuickReactionBarProps> = ({ onReact }) => {
+  return (
+    <div className="flex items-center gap-0.5 rounded-full border border-border bg-background/95 px-1 py-0.5 shadow-sm">
+      <SmilePlus className="h-3 w-3 text-muted-foreground mx-1" />
+      {QUICK_REACTIONS.map((key) => (
+        <button
+          key={key}
+          type="button"
+          onClick={() => onReact(key)}
+          className="rounded-full px-1 text-sm hover:bg-accent transition-colors"
+        >
+          {key}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown, Loader2 } from 'lucide-react';
+import { ScrollArea } from '@/ui/scroll-area';
+import type { ChatMessage } from '@/kernel/ports/chat';
+
+// Older history is requested once the viewport is scrolled this close to the top
+const HISTORY_LOAD_THRESHOLD_PX = 200;
+// Within this distance of the bottom the view stays pinned to the latest message
+const BOTTOM_STICK_THRESHOLD_PX = 80;
+// Rows rendered beyond the visible range on each side
+const OVERSCAN = 8;
+
+type TimelineRow =
+  | { kind: 'history'; key: string }
+  | { kind: 'date'; key: string; label: string }
+  | { kind: 'message'; key: string; message: ChatMessage };
+
+const getDayLabel = (date: Date) => {
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+
+  return date.toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: date.getFullYear() === today.getFullYear() ? undefined : 'numeric',
+  });
+};
+
+// Flatten messages into rows, starting a new day with a date separator
+const buildRows = (messages: ChatMessage[]): TimelineRow[] => {
+  const rows: TimelineRow[] = [{ kind: 'history', key: 'history' }];
+  let currentDay: string | null = null;
+
+  for (const message of messages) {
+    const date = new Date(message.timestamp);
+    const day = date.toDateString();
+    if (day !== currentDay) {
+      currentDay = day;
+      rows.push({ kind: 'date', key: `date-${day}`, label: getDayLabel(date) });
+    }
+    rows.push({ kind: 'message', key: message.id, message });
+  }
+
+  return rows;
+};
+
+const estimateRowSize = (row: TimelineRow) => {
+  if (row.kind === 'message') return row.message.media ? 280 : 72;
+  return 40;
+};
+
+interface MessageTimelineProps {
+  messages: ChatMessage[];
+  hasMoreHistory: boolean;
+  isLoadingHistory: boolean;
+  onLoadOlder: () => void;
+  renderMessage: (message: ChatMessage) => React.ReactNode;
+}
+
+/**
+ * Virtualized, variable-height message list
+ * Stays anchored to the bottom while the reader is there, keeps their place when
+ * history is prepended and offers a jump back to the latest message otherwise
+ */
+export const MessageTimeline: React.FC<MessageTimelineProps> = ({
+  messages,
+  hasMoreHistory,
+  isLoadingHistory,
+  onLoadOlder,
+  renderMessage
+}) => {
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const isAtBottomRef = useRef(true);
+  const latestMessageIdRef = useRef<string | undefined>(undefined);
+  // Position of the oldest loaded message, used to keep the reader's place on prepend
+  const anchorRef = useRef<{ key: string; start: number } | null>(null);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const [lastSeenMessageId, setLastSeenMessageId] = useState<string | undefined>(undefined);
+
+  const rows = useMemo(() => buildRows(messages), [messages]);
+  latestMessageIdRef.current = messages[messages.length - 1]?.id;
+
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLDivElement>('[data-radix-scroll-area-viewport]') ?? null;
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: getViewport,
+    estimateSize: (index) => estimateRowSize(rows[index]),
+    getItemKey: (index) => rows[index].key,
+    overscan: OVERSCAN,
+  });
+
+  const totalSize = virtualizer.getTotalSize();
+
+  // Keep the reader's place when history is prepended, otherwise follow the latest message
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    const firstMessageIndex = rows.findIndex(row => row.kind === 'message');
+    const firstMessageKey = firstMessageIndex >= 0 ? rows[firstMessageIndex].key : undefined;
+
+    if (anchor && firstMessageKey !== anchor.key) {
+      const anchorIndex = rows.findIndex(row => row.key === anchor.key);
+      if (anchorIndex > 0) {
+        const shift = virtualizer.measurementsCache[anchorIndex].start - anchor.start;
+        virtualizer.scrollToOffset((virtualizer.scrollOffset ?? 0) + shift);
+      }
+    } else if (isAtBottomRef.current && rows.length > 1) {
+      virtualizer.scrollToEnd();
+      setLastSeenMessageId(latestMessageIdRef.current);
+    }
+
+    anchorRef.current = firstMessageKey
+      ? { key: firstMessageKey, start: virtualizer.measurementsCache[firstMessageIndex].start }
+      : null;
+  }, [rows, totalSize, virtualizer]);
+
+  // Track whether the reader is at the bottom and fetch older history near the top
+  useEffect(() => {
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      const atBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < BOTTOM_STICK_THRESHOLD_PX;
+      isAtBottomRef.current = atBottom;
+      setIsAtBottom(atBottom);
+      if (atBottom) {
+        setLastSeenMessageId(latestMessageIdRef.current);
+      }
+
+      if (viewport.scrollTop < HISTORY_LOAD_THRESHOLD_PX) {
+        onLoadOlder();
+      }
+    };
+
+    viewport.addEventListener('scroll', handleScroll, { passive: true });
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [onLoadOlder]);
+
+  // A short first page doesn't scroll, so keep loading until the viewport is filled
+  useEffect(() => {
+    const viewport = getViewport();
+    if (viewport && hasMoreHistory && !isLoadingHistory && totalSize <= viewport.clientHeight) {
+      onLoadOlder();
+    }
+  }, [totalSize, hasMoreHistory, isLoadingHistory, onLoadOlder]);
+
+  const jumpToLatest = () => {
+    isAtBottomRef.current = true;
+    setIsAtBottom(true);
+    setLastSeenMessageId(latestMessageIdRef.current);
+    virtualizer.scrollToEnd();
+  };
+
+  const lastSeenIndex = messages.findIndex(message => message.id === lastSeenMessageId);
+  const unseenCount = isAtBottom || lastSeenIndex < 0 ? 0 : messages.length - 1 - lastSeenIndex;
+
+  const renderRow = (row: TimelineRow) => {
+    if (row.kind === 'message') {
+      return <div className="px-4 py-2">{renderMessage(row.message)}</div>;
+    }
+
+    if (row.kind === 'date') {
+      return (
+        <div className="flex items-center gap-3 px-4 py-3" role="separator" aria-label={row.label}>
+          <div className="h-px flex-1 bg-border" />
+          <span className="text-xs font-medium text-muted-foreground">{row.label}</span>
+          <div className="h-px flex-1 bg-border" />
+        </div>
+      );
+    }
+
+    if (isLoadingHistory) {
+      return (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    return hasMoreHistory ? (
+      <div className="h-4" />
+    ) : (
+      <div className="text-center text-xs text-muted-foreground py-3">
+        Beginning of conversation
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative flex-1 min-h-0">
+      <ScrollArea className="h-full" ref={scrollAreaRef}>
+        {messages.length === 0 ? (
+          <div className="text-center text-muted-foreground text-sm py-8">
+            No messages yet. Start a conversation!
+          </div>
+        ) : (
+          <div className="relative w-full" style={{ height: totalSize }}>
+            {virtualizer.getVirtualItems().map((item) => (
+              <div
+                key={item.key}
+                data-index={item.index}
+                ref={virtualizer.measureElement}
+                className="absolute left-0 top-0 w-full"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                {renderRow(rows[item.index])}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      {!isAtBottom && messages.length > 0 && (
+        <button
+          type="button"
+          onClick={jumpToLatest}
+          className="absolute bottom-4 right-4 z-10 flex items-center gap-1 rounded-full border border-border bg-background/95 px-3 py-1.5 text-xs text-foreground shadow-md hover:bg-accent transition-colors"
+        >
+          <ArrowDown className="h-3 w-3" />
+          {unseenCount > 0 ? `${unseenCount} new message${unseenCount === 1 ? '' : 's'}` : 'Jump to latest'}
+        </button>
+      )}
+    </div>
+  );
+};
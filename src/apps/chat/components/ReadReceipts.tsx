@@ -0,0 +1,77 @@
+import React from 'react';
+import { Avatar, AvatarImage, AvatarFallback } from '@/ui/avatar';
+import type { ChatReadReceipt, ChatUser } from '@/kernel/ports/chat';
+import { useMediaUrl } from '@/hooks/useMediaUrl';
+
+const MAX_VISIBLE_READERS = 4;
+
+const getDisplayName = (user: ChatUser) => user.displayName || user.id.split(':')[0].substring(1);
+
+interface ReadReceiptsProps {
+  receipts: ChatReadReceipt[];
+  isOwnMessage: boolean;
+}
+
+/**
+ * Small stacked avatars of the members whose read position is this message
+ */
+export const ReadReceipts: React.FC<ReadReceiptsProps> = ({ receipts, isOwnMessage }) => {
+  if (receipts.length === 0) return null;
+
+  const visible = receipts.slice(0, MAX_VISIBLE_READERS);
+  const overflow = receipts.length - visible.length;
+
+  return (
+    <div
+      className={`flex items-center mt-1 -space-x-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+      title={`Seen by ${receipts.map(receipt => getDisplayName(receipt.user)).join(', ')}`}
+    >
+      {visible.map((receipt) => (
+        <ReaderAvatar key={receipt.user.id} user={receipt.user} />
+      ))}
+      {overflow > 0 && (
+        <span className="pl-2 text-[10px] text-muted-foreground">+{overflow}</span>
+      )}
+    </div>
+  );
+};
+
+const ReaderAvatar: React.FC<{ user: ChatUser }> = ({ user }) => {
+  const avatarSrc = useMediaUrl(user.avatarUrl, { width: 32, height: 32, method: 'crop' });
+
+  return (
+    <Avatar className="h-4 w-4 border border-background">
+      {avatarSrc && <AvatarImage src={avatarSrc} alt={getDisplayName(user)} />}
+      <AvatarFallback className="text-[8px]">
+        {getDisplayName(user).charAt(0).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+};
+
+interface TypingIndicatorProps {
+  users: ChatUser[];
+}
+
+/**
+ * "X is typing…" line shown above the composer
+ */
+export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ users }) => {
+  if (users.length === 0) return null;
+
+  const names = users.map(getDisplayName);
+  let label: string;
+  if (names.length === 1) {
+    label = `${names[0]} is typing…`;
+  } else if (names.length === 2) {
+    label = `${names[0]} and ${names[1]} are typing…`;
+  } else {
+    label = `${names[0]} and ${names.length - 1} others are typing…`;
+  }
+
+  return (
+    <div className="mb-2 text-xs text-muted-foreground italic truncate">
+      {label}
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { ScrollArea } from '@/ui/scroll-area';
+import { Send, Loader2, X } from 'lucide-react';
+import type { ChatMessage, ChatPort } from '@/kernel/ports/chat';
+import { MessageBubble } from './MessageBubble';
+
+interface ThreadPanelProps {
+  chatPort: ChatPort;
+  roomId: string;
+  threadId: string;
+  currentUserId: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Side panel showing a thread root and its replies, with its own composer
+ */
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  chatPort,
+  roomId,
+  threadId,
+  currentUserId,
+  onClose
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [newMessage, setNewMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Load the thread timeline
+  useEffect(() => {
+    let mounted = true;
+
+    const loadThread = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const threadMessages = await chatPort.getThreadMessages(roomId, threadId);
+        if (mounted) {
+          setMessages(threadMessages);
+        }
+      } catch (err) {
+        console.error('[ThreadPanel] Failed to load thread:', err);
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load thread');
+        }
+      } finally {
+        if (mounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadThread();
+
+    return () => {
+      mounted = false;
+    };
+  }, [chatPort, roomId, threadId]);
+
+  // Live thread replies and updates to messages already shown
+  useEffect(() => {
+    const unsubscribeMessages = chatPort.onMessage((message) => {
+      if (message.roomId !== roomId || message.threadId !== threadId) return;
+
+      // Our own replies are already shown from the send response
+      setMessages(prev => prev.some(m => m.id === message.id)
+        ? prev.map(m => m.id === message.id ? message : m)
+        : [...prev, message]);
+    });
+
+    const unsubscribeUpdates = chatPort.onMessageUpdate((updatedMessage) => {
+      if (updatedMessage.roomId !== roomId) return;
+
+      setMessages(prev => prev.map(message =>
+        message.id === updatedMessage.id ? updatedMessage : message
+      ));
+    });
+
+    return () => {
+      unsubscribeMessages();
+      unsubscribeUpdates();
+    };
+  }, [chatPort, roomId, threadId]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'instant' });
+  }, [messages]);
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMessage.trim() || isSending) return;
+
+    setIsSending(true);
+    try {
+      const sent = await chatPort.sendMessage(roomId, newMessage.trim(), { threadId });
+      setMessages(prev => prev.some(m => m.id === sent.id) ? prev : [...prev, sent]);
+      setNewMessage('');
+    } catch (err) {
+      console.error('[ThreadPanel] Failed to send thread reply:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleToggleReaction = async (messageId: string, key: string, includesMe: boolean) => {
+    try {
+      if (includesMe) {
+        await chatPort.removeReaction(roomId, messageId, key);
+      } else {
+        await chatPort.addReaction(roomId, messageId, key);
+      }
+    } catch (err) {
+      console.error('[ThreadPanel] Failed to update reaction:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update reaction');
+    }
+  };
+
+  const replyCount = Math.max(messages.length - 1, 0);
+
+  return (
+    <div className="w-80 flex-shrink-0 flex flex-col border-l border-border min-h-0">
+      {/* Thread Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Thread</h3>
+          <span className="text-xs text-muted-foreground">
+            {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+          </span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Close thread"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive px-4 py-2 text-xs">
+          {error}
+        </div>
+      )}
+
+      {/* Thread Messages */}
+      <ScrollArea className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 p-4">
+            {messages.map((message, index) => (
+              <React.Fragment key={message.id}>
+                <MessageBubble
+                  message={message}
+                  isOwnMessage={message.sender === currentUserId}
+                  onToggleReaction={(key, includesMe) => handleToggleReaction(message.id, key, includesMe)}
+                  onRetryDecryption={() => chatPort.retryDecryption(roomId, message.id).catch(err => {
+                    console.error('[ThreadPanel] Failed to retry decryption:', err);
+                  })}
+                />
+                {index === 0 && messages.length > 1 && (
+                  <div className="border-t border-border" />
+                )}
+              </React.Fragment>
+            ))}
+            <div ref={messagesEndRef} />
+          </div>
+        )}
+      </ScrollArea>
+
+      {/* Thread Composer */}
+      <div className="p-3 border-t border-border flex-shrink-0">
+        <form onSubmit={handleSendMessage} className="flex space-x-2">
+          <Input
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            placeholder="Reply in thread..."
+            className="flex-1 bg-background border-input text-foreground placeholder:text-muted-foreground focus:border-ring min-w-0"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!newMessage.trim() || isSending}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          >
+            {isSending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,497 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { Textarea } from '@/ui/textarea';
+import { Separator } from '@/ui/separator';
+import { ScrollArea } from '@/ui/scroll-area';
+import { Avatar, AvatarFallback, AvatarImage } from '@/ui/avatar';
+import { Loader2, Lock } from 'lucide-react';
+import type {
+  ChatHistoryVisibility,
+  ChatJoinRule,
+  ChatMemberRole,
+  ChatPort,
+  ChatPowerLevels,
+  ChatRoomMember,
+  ChatRoomSettings
+} from '@/kernel/ports/chat';
+import { useChatPort } from '@/kernel/providers/ServicesProvider';
+import { useRoomSettings } from '@/hooks/useRoomSettings';
+import { useMediaUrl } from '@/hooks/useMediaUrl';
+
+interface RoomSettingsAppProps {
+  roomId?: string;
+}
+
+const JOIN_RULE_LABELS: Record<Exclude<ChatJoinRule, 'restricted'>, string> = {
+  invite: 'Invite only',
+  knock: 'Ask to join',
+  public: 'Anyone can join',
+};
+
+const HISTORY_VISIBILITY_LABELS: Record<ChatHistoryVisibility, string> = {
+  joined: 'Members, from when they joined',
+  invited: 'Members, from when they were invited',
+  shared: 'Members, all history',
+  world_readable: 'Anyone',
+};
+
+const ROLE_POWER_LEVELS: Record<ChatMemberRole, number> = {
+  admin: 100,
+  moderator: 50,
+  member: 0,
+};
+
+const ROLE_LABELS: Record<ChatMemberRole, string> = {
+  admin: 'Admin',
+  moderator: 'Moderator',
+  member: 'Member',
+};
+
+const REQUIREMENT_LABELS: Record<keyof Omit<ChatPowerLevels, 'users' | 'usersDefault'>, string> = {
+  sendMessages: 'Send messages',
+  invite: 'Invite people',
+  kick: 'Remove people',
+  ban: 'Ban people',
+  redact: "Delete others' messages",
+  changeSettings: 'Change settings',
+};
+
+const MEMBERSHIP_SECTIONS: { membership: ChatRoomMember['membership']; label: string }[] = [
+  { membership: 'join', label: 'Members' },
+  { membership: 'invite', label: 'Invited' },
+  { membership: 'knock', label: 'Asking to join' },
+  { membership: 'ban', label: 'Banned' },
+];
+
+const selectClass = 'h-8 w-full rounded-md border border-input bg-background px-2 text-xs text-foreground disabled:opacity-50';
+
+/**
+ * Window to view and change a room's state, and moderate its members
+ * Opened from the chat header; controls the current user isn't allowed to use are shown read-only
+ */
+export const RoomSettingsApp: React.FC<RoomSettingsAppProps> = ({ roomId }) => {
+  const chatPort = useChatPort();
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    chatPort?.getCurrentUser()
+      .then((user) => {
+        if (mounted) setCurrentUserId(user?.id ?? null);
+      })
+      .catch((err) => {
+        console.error('[RoomSettingsApp] Failed to load current user:', err);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [chatPort]);
+
+  if (!roomId || !chatPort) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <p className="text-sm text-muted-foreground">No room selected</p>
+      </div>
+    );
+  }
+
+  return <RoomSettings key={roomId} chatPort={chatPort} roomId={roomId} currentUserId={currentUserId} />;
+};
+
+interface RoomSettingsProps {
+  chatPort: ChatPort;
+  roomId: string;
+  currentUserId: string | null;
+}
+
+const RoomSettings: React.FC<RoomSettingsProps> = ({ chatPort, roomId, currentUserId }) => {
+  const { settings, members, isLoading, error: loadError, reload } = useRoomSettings(chatPort, roomId);
+  const [name, setName] = useState('');
+  const [topic, setTopic] = useState('');
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const avatarSrc = useMediaUrl(settings?.avatarUrl, { width: 96, height: 96, method: 'crop' });
+
+  // Follow changes made elsewhere
+  useEffect(() => {
+    setName(settings?.name ?? '');
+    setTopic(settings?.topic ?? '');
+  }, [settings?.name, settings?.topic]);
+
+  const run = async (actionKey: string, action: () => Promise<void>) => {
+    setError(null);
+    setBusyAction(actionKey);
+    try {
+      await action();
+      await reload();
+    } catch (err) {
+      console.error('[RoomSettingsApp] Failed to update room:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update room');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleAvatarSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      run('avatar', () => chatPort.setRoomAvatar(roomId, file));
+    }
+  };
+
+  const handleEnableEncryption = () => {
+    if (!window.confirm('Enable end-to-end encryption? It cannot be turned off again.')) return;
+    run('encryption', () => chatPort.enableEncryption(roomId));
+  };
+
+  const handleKick = (member: ChatRoomMember) => {
+    const action = member.membership === 'invite' ? 'Cancel the invite for' : 'Remove';
+    if (!window.confirm(`${action} ${member.displayName || member.id}?`)) return;
+    run(`member:${member.id}`, () => chatPort.kick(roomId, member.id));
+  };
+
+  const handleBan = (member: ChatRoomMember) => {
+    if (!window.confirm(`Ban ${member.displayName || member.id}? They won't be able to rejoin until unbanned.`)) return;
+    run(`member:${member.id}`, () => chatPort.ban(roomId, member.id));
+  };
+
+  const displayError = error || loadError;
+
+  return (
+    <div className="h-full min-h-[400px] flex flex-col bg-transparent overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-border">
+        <h3 className="text-sm font-semibold text-foreground truncate">{settings?.name ?? 'Room settings'}</h3>
+      </div>
+
+      {displayError && (
+        <div className="bg-destructive/10 text-destructive px-4 py-2 text-xs">
+          {displayError}
+        </div>
+      )}
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        {isLoading || !settings ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 p-4">
+            {/* Avatar, name and topic */}
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <Avatar className="h-12 w-12">
+                  {avatarSrc && <AvatarImage src={avatarSrc} alt={settings.name} />}
+                  <AvatarFallback>{settings.name.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                {settings.permissions.canChangeAvatar && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => avatarInputRef.current?.click()}
+                      disabled={!!busyAction}
+                    >
+                      {busyAction === 'avatar' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                      Change
+                    </Button>
+                    {settings.avatarUrl && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => run('avatar', () => chatPort.setRoomAvatar(roomId, null))}
+                        disabled={!!busyAction}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                    <input
+                      ref={avatarInputRef}
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={handleAvatarSelected}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <form
+                className="space-y-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  run('name', () => chatPort.setRoomName(roomId, name.trim()));
+                }}
+              >
+                <label className="text-xs text-muted-foreground">Name</label>
+                <div className="flex gap-2">
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="h-8 text-sm"
+                    disabled={!settings.permissions.canChangeName}
+                  />
+                  {settings.permissions.canChangeName && (
+                    <Button
+                      type="submit"
+                      size="sm"
+                      className="h-8"
+                      disabled={!name.trim() || name.trim() === settings.name || !!busyAction}
+                    >
+                      {busyAction === 'name' ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Save'}
+                    </Button>
+                  )}
+                </div>
+              </form>
+
+              <form
+                className="space-y-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  run('topic', () => chatPort.setRoomTopic(roomId, topic.trim()));
+                }}
+              >
+                <label className="text-xs text-muted-foreground">Topic</label>
+                <Textarea
+                  value={topic}
+                  onChange={(e) => setTopic(e.target.value)}
+                  className="min-h-[60px] text-sm"
+                  disabled={!settings.permissions.canChangeTopic}
+                />
+                {settings.permissions.canChangeTopic && (
+                  <Button
+                    type="submit"
+                    size="sm"
+                    className="h-7 w-full text-xs"
+                    disabled={topic.trim() === (settings.topic ?? '') || !!busyAction}
+                  >
+                    {busyAction === 'topic' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                    Save topic
+                  </Button>
+                )}
+              </form>
+            </div>
+
+            <Separator />
+
+            {/* Access and history */}
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Who can join</label>
+                <select
+                  className={selectClass}
+                  value={settings.joinRule}
+                  onChange={(e) => run('joinRule', () => chatPort.setJoinRule(
+                    roomId,
+                    e.target.value as Exclude<ChatJoinRule, 'restricted'>
+                  ))}
+                  disabled={!settings.permissions.canChangeJoinRule || !!busyAction}
+                >
+                  {settings.joinRule === 'restricted' && (
+                    <option value="restricted" disabled>Members of a space</option>
+                  )}
+                  {Object.entries(JOIN_RULE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Who can read history</label>
+                <select
+                  className={selectClass}
+                  value={settings.historyVisibility}
+                  onChange={(e) => run('history', () => chatPort.setHistoryVisibility(
+                    roomId,
+                    e.target.value as ChatHistoryVisibility
+                  ))}
+                  disabled={!settings.permissions.canChangeHistoryVisibility || !!busyAction}
+                >
+                  {Object.entries(HISTORY_VISIBILITY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Lock className="h-3 w-3" />
+                  {settings.isEncrypted ? 'End-to-end encrypted' : 'Not encrypted'}
+                </span>
+                {settings.permissions.canEnableEncryption && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={handleEnableEncryption}
+                    disabled={!!busyAction}
+                  >
+                    {busyAction === 'encryption' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                    Enable
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <Separator />
+
+            {/* Power level requirements */}
+            <div className="space-y-2">
+              <span className="text-sm">Permissions</span>
+              {(Object.keys(REQUIREMENT_LABELS) as (keyof typeof REQUIREMENT_LABELS)[]).map(key => (
+                <div key={key} className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">{REQUIREMENT_LABELS[key]}</span>
+                  <PowerLevelSelect
+                    value={settings.powerLevels[key]}
+                    maxLevel={settings.myPowerLevel}
+                    onChange={(level) => run(`requirement:${key}`, () => chatPort.setPowerLevelRequirements(roomId, { [key]: level }))}
+                    disabled={!settings.permissions.canChangePowerLevels || !!busyAction}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Members */}
+            {MEMBERSHIP_SECTIONS.map(({ membership, label }) => {
+              const sectionMembers = members.filter(member => member.membership === membership);
+              if (sectionMembers.length === 0) return null;
+
+              return (
+                <div key={membership} className="space-y-2">
+                  <span className="text-sm">{label} · {sectionMembers.length}</span>
+                  {sectionMembers.map(member => (
+                    <MemberRow
+                      key={member.id}
+                      member={member}
+                      settings={settings}
+                      isMe={member.id === currentUserId}
+                      isBusy={busyAction === `member:${member.id}`}
+                      disabled={!!busyAction}
+                      onSetPowerLevel={(level) => run(`member:${member.id}`, () => chatPort.setMemberPowerLevel(roomId, member.id, level))}
+                      onKick={() => handleKick(member)}
+                      onBan={() => handleBan(member)}
+                      onUnban={() => run(`member:${member.id}`, () => chatPort.unban(roomId, member.id))}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+interface PowerLevelSelectProps {
+  value: number;
+  maxLevel: number; // Nobody can grant more power than they have
+  onChange: (level: number) => void;
+  disabled?: boolean;
+}
+
+const PowerLevelSelect: React.FC<PowerLevelSelectProps> = ({ value, maxLevel, onChange, disabled }) => {
+  const isCustom = !Object.values(ROLE_POWER_LEVELS).includes(value);
+
+  return (
+    <select
+      className={`${selectClass} w-28`}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      disabled={disabled}
+    >
+      {isCustom && <option value={value}>Custom ({value})</option>}
+      {(Object.keys(ROLE_POWER_LEVELS) as ChatMemberRole[]).map(role => (
+        <option key={role} value={ROLE_POWER_LEVELS[role]} disabled={ROLE_POWER_LEVELS[role] > maxLevel}>
+          {ROLE_LABELS[role]}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+interface MemberRowProps {
+  member: ChatRoomMember;
+  settings: ChatRoomSettings;
+  isMe: boolean;
+  isBusy: boolean;
+  disabled: boolean;
+  onSetPowerLevel: (level: number) => void;
+  onKick: () => void;
+  onBan: () => void;
+  onUnban: () => void;
+}
+
+const MemberRow: React.FC<MemberRowProps> = ({
+  member,
+  settings,
+  isMe,
+  isBusy,
+  disabled,
+  onSetPowerLevel,
+  onKick,
+  onBan,
+  onUnban
+}) => {
+  const avatarSrc = useMediaUrl(member.avatarUrl, { width: 32, height: 32, method: 'crop' });
+  const displayName = member.displayName || member.id;
+  // Moderation only reaches members with less power than us
+  const outranks = member.powerLevel < settings.myPowerLevel;
+  const canChangeRole = settings.permissions.canChangePowerLevels && (isMe || outranks);
+  const canKick = settings.permissions.canKick && outranks && member.membership !== 'ban';
+  const canBan = settings.permissions.canBan && outranks && member.membership !== 'ban';
+  const canUnban = settings.permissions.canBan && member.membership === 'ban';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Avatar className="h-6 w-6">
+          {avatarSrc && <AvatarImage src={avatarSrc} alt={displayName} />}
+          <AvatarFallback className="text-[10px]">{displayName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-xs text-foreground">{displayName}{isMe && ' (you)'}</p>
+          {member.displayName && <p className="truncate text-[10px] text-muted-foreground">{member.id}</p>}
+        </div>
+        {isBusy && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        {member.membership === 'join' && canChangeRole ? (
+          <PowerLevelSelect
+            value={member.powerLevel}
+            maxLevel={settings.myPowerLevel}
+            onChange={onSetPowerLevel}
+            disabled={disabled}
+          />
+        ) : member.role !== 'member' && (
+          <span className="text-[10px] text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+        )}
+      </div>
+      {!isMe && (canKick || canBan || canUnban) && (
+        <div className="flex justify-end gap-1">
+          {canKick && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onKick} disabled={disabled}>
+              {member.membership === 'invite' ? 'Cancel invite' : member.membership === 'knock' ? 'Deny' : 'Remove'}
+            </Button>
+          )}
+          {canBan && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-destructive" onClick={onBan} disabled={disabled}>
+              Ban
+            </Button>
+          )}
+          {canUnban && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onUnban} disabled={disabled}>
+              Unban
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
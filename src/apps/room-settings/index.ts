@@ -0,0 +1 @@
+export { RoomSettingsApp } from './RoomSettingsApp';
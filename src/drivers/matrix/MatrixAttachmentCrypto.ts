@@ -0,0 +1,71 @@
+/**
+ * MatrixAttachmentCrypto - AES-CTR encryption for media in encrypted rooms
+ * Implements the v2 encrypted attachment format using WebCrypto
+ * https://spec.matrix.org/v1.11/client-server-api/#sending-encrypted-attachments
+ */
+
+import type { EncryptedFile } from 'matrix-js-sdk/lib/types';
+import { decodeBase64, encodeBase64 } from './MatrixBase64';
+
+export interface AttachmentKeyInfo {
+  key: JsonWebKey;
+  iv: string;
+  sha256: string;
+}
+
+export interface EncryptedAttachment {
+  data: ArrayBuffer;
+  info: Omit<EncryptedFile, 'url'>;
+}
+
+/**
+ * Encrypt file contents before upload
+ * The returned info must be sent as the event's `file` field with the uploaded mxc URL added
+ */
+export async function encryptAttachment(plaintext: ArrayBuffer): Promise<EncryptedAttachment> {
+  // Random high 64 bits, zero counter in the low 64 bits
+  const iv = new Uint8Array(16);
+  crypto.getRandomValues(iv.subarray(0, 8));
+
+  const cryptoKey = await crypto.subtle.generateKey(
+    { name: 'AES-CTR', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+  const exportedKey = await crypto.subtle.exportKey('jwk', cryptoKey);
+  const data = await crypto.subtle.encrypt({ name: 'AES-CTR', counter: iv, length: 64 }, cryptoKey, plaintext);
+  const hash = await crypto.subtle.digest('SHA-256', data);
+
+  return {
+    data,
+    info: {
+      key: {
+        alg: 'A256CTR',
+        key_ops: ['encrypt', 'decrypt'],
+        kty: 'oct',
+        k: exportedKey.k || '',
+        ext: true,
+      },
+      iv: encodeBase64(iv),
+      hashes: { sha256: encodeBase64(new Uint8Array(hash)) },
+      v: 'v2',
+    },
+  };
+}
+
+/**
+ * Verify and decrypt downloaded file contents
+ */
+export async function decryptAttachment(ciphertext: ArrayBuffer, info: AttachmentKeyInfo): Promise<ArrayBuffer> {
+  const hash = await crypto.subtle.digest('SHA-256', ciphertext);
+  if (encodeBase64(new Uint8Array(hash)) !== info.sha256.replace(/=+$/, '')) {
+    throw new Error('Attachment hash mismatch');
+  }
+
+  const cryptoKey = await crypto.subtle.importKey('jwk', info.key, { name: 'AES-CTR' }, false, ['decrypt']);
+  return crypto.subtle.decrypt(
+    { name: 'AES-CTR', counter: decodeBase64(info.iv), length: 64 },
+    cryptoKey,
+    ciphertext
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * MatrixBase64 - Base64 for binary data in the Matrix crypto formats
+ * The spec mostly uses unpadded base64; key export files keep the padding
+ */
+
+export function encodeBase64(bytes: Uint8Array, options: { padded?: boolean } = {}): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  const encoded = btoa(binary);
+  return options.padded ? encoded : encoded.replace(/=+$/, '');
+}
+
+/**
+ * Decode padded or unpadded, standard or URL-safe base64
+ * Throws on anything else
+ */
+export function decodeBase64(value: string): Uint8Array {
+  const padded = value + '='.repeat((4 - (value.length % 4)) % 4);
+  const binary = atob(padded.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
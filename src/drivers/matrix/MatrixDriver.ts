@@ -5,13 +5,79 @@
  */
 
 import * as sdk from "matrix-js-sdk";
-import type { MatrixClient, MatrixEvent, Room } from "matrix-js-sdk";
+import type { AuthDict, MatrixClient, MatrixEvent, Room, RoomMember, TokenRefreshFunction } from "matrix-js-sdk";
+import {
+  SlidingSync,
+  MSC3575_STATE_KEY_ME,
+  MSC3575_WILDCARD,
+  type MSC3575List,
+} from "matrix-js-sdk/lib/sliding-sync";
+import { CryptoEvent, ImportRoomKeyStage, type CryptoCallbacks, type VerificationRequest } from "matrix-js-sdk/lib/crypto-api";
+import { decryptKeyExport, encryptKeyExport } from "./MatrixKeyExport";
+
+/**
+ * auto - sliding sync when the homeserver supports it, classic sync otherwise
+ */
+export type MatrixSyncMode = 'auto' | 'sliding' | 'classic';
+
+export interface SlidingSyncConfig {
+  listRanges: number[][]; // Inclusive index ranges of the recency-sorted room list
+  listTimelineLimit: number; // Events per room in the list, enough for previews
+  roomTimelineLimit: number; // Events per room when it is focused
+  maxRoomSubscriptions: number; // Focused rooms kept subscribed, most recent first
+  timeoutMs: number; // Long-poll timeout
+  proxyUrl?: string; // Sliding sync proxy, for homeservers without native support
+}
 
 export interface MatrixDriverConfig {
   homeserverUrl: string;
   accessToken: string;
+  refreshToken?: string;
+  // Exchanges the refresh token for new tokens when the access token expires
+  tokenRefreshFunction?: TokenRefreshFunction;
   userId: string;
   deviceId?: string;
+  // Supplies the secret storage (recovery) key when crypto needs it
+  cryptoCallbacks?: CryptoCallbacks;
+  syncMode?: MatrixSyncMode;
+  slidingSync?: Partial<SlidingSyncConfig>;
+}
+
+export type MatrixConnectionStatus =
+  | 'disconnected'
+  | 'connecting'
+  | 'live'
+  | 'catching-up'
+  | 'reconnecting'
+  | 'offline'
+  | 'auth-failed';
+
+export interface MatrixConnectionState {
+  status: MatrixConnectionStatus;
+  attempt: number; // Reconnect attempts since the connection was last live
+  nextRetryAt: number | null; // Epoch ms of the next scheduled reconnect attempt
+}
+
+export interface MatrixSessionExpiry {
+  // The homeserver kept the device - signing in again with the same device ID resumes it
+  softLogout: boolean;
+}
+
+export interface MatrixKeyBackupStatus {
+  crossSigningReady: boolean; // Our identity is set up and this device can sign with it
+  secretStorageReady: boolean; // A recovery key protects our cross-signing and backup keys
+  hasRecoveryKey: boolean; // The account has a default secret storage key, possibly from another client
+  backupVersion: string | null; // Key backup on the server, if any
+  backupEnabled: boolean; // This device is uploading its room keys to that backup
+}
+
+export interface MatrixDevice {
+  deviceId: string;
+  displayName?: string;
+  lastSeenIp?: string;
+  lastSeenTs?: number; // Epoch ms
+  isCurrent: boolean;
+  isVerified: boolean; // Cross-signed by our identity; false when encryption is unavailable
 }
 
 export interface MatrixDriverState {
@@ -19,8 +85,45 @@ export interface MatrixDriverState {
   syncing: boolean;
   error: string | null;
   deviceId: string | null;
+  syncMode: 'sliding' | 'classic' | null; // The mode actually in use once started
+  connection: MatrixConnectionState;
 }
 
+const DEFAULT_SLIDING_SYNC_CONFIG: SlidingSyncConfig = {
+  listRanges: [[0, 19]],
+  listTimelineLimit: 1,
+  roomTimelineLimit: 50,
+  maxRoomSubscriptions: 10,
+  timeoutMs: 30000,
+};
+
+// Unstable feature advertised in /versions by homeservers with native sliding sync
+const SLIDING_SYNC_FEATURE = 'org.matrix.simplified_msc3575';
+const ROOM_LIST_NAME = 'recent';
+// State the room list classifies rooms by (DM, group, channel or space), and that room settings show
+const ROOM_UPDATE_STATE_EVENTS = new Set<string>([
+  sdk.EventType.RoomCreate,
+  sdk.EventType.RoomJoinRules,
+  sdk.EventType.RoomHistoryVisibility,
+  sdk.EventType.RoomCanonicalAlias,
+  sdk.EventType.RoomName,
+  sdk.EventType.RoomTopic,
+  sdk.EventType.RoomAvatar,
+  sdk.EventType.RoomEncryption,
+  sdk.EventType.RoomPowerLevels,
+]);
+// How long focusRoom waits for a newly subscribed room to arrive
+const ROOM_SUBSCRIPTION_TIMEOUT_MS = 10000;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+// Long polls return within their timeout, so this much silence means the connection is stuck
+const SYNC_STALL_TIMEOUT_MS = 75000;
+const HEALTH_CHECK_INTERVAL_MS = 15000;
+
+// Bump when a change to sync options or handling makes previously cached sync data invalid
+const SYNC_STORE_SCHEMA_VERSION = 2;
+
 export class MatrixDriver {
   private client: MatrixClient | null = null;
   private state: MatrixDriverState = {
@@ -28,18 +131,48 @@ export class MatrixDriver {
     syncing: false,
     error: null,
     deviceId: null,
+    syncMode: null,
+    connection: { status: 'disconnected', attempt: 0, nextRetryAt: null },
   };
+
+  private config: MatrixDriverConfig | null = null;
+  private slidingSync: SlidingSync | null = null;
+  // Rooms with a sliding sync subscription, least recently focused first
+  private focusedRooms: string[] = [];
+
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private lastSyncAt = 0;
   
   private listeners: {
     stateChange: Array<(state: MatrixDriverState) => void>;
     message: Array<(event: MatrixEvent, room: Room) => void>;
     roomUpdate: Array<(room: Room) => void>;
+    eventUpdate: Array<(event: MatrixEvent, room: Room, targetEventId: string) => void>;
+    typing: Array<(room: Room) => void>;
+    receipt: Array<(room: Room) => void>;
+    sessionExpired: Array<(expiry: MatrixSessionExpiry) => void>;
+    verificationRequest: Array<(request: VerificationRequest) => void>;
+    keyBackupChange: Array<() => void>;
   } = {
     stateChange: [],
     message: [],
     roomUpdate: [],
+    eventUpdate: [],
+    typing: [],
+    receipt: [],
+    sessionExpired: [],
+    verificationRequest: [],
+    keyBackupChange: [],
   };
 
+  // Maps reaction/edit event IDs to the event they relate to, so redactions
+  // (which strip the relation from the redacted event) can still be routed
+  private relationTargets = new Map<string, string>();
+
+  // Rooms whose notification count changes are already forwarded as room updates
+  private watchedRooms = new WeakSet<Room>();
+
   /**
    * Initialize the driver with configuration
    */
@@ -48,6 +181,7 @@ export class MatrixDriver {
       await this.stop();
     }
 
+    this.config = config;
     this.updateState({ error: null, deviceId: config.deviceId });
 
     try {
@@ -61,34 +195,8 @@ export class MatrixDriver {
         tokenPreview: config.accessToken?.substring(0, 20) + '...'
       });
       
-      // Create a unique storage key based on user ID to avoid conflicts
-      const storageKey = `matrix_${config.userId.replace(/[^a-zA-Z0-9]/g, '_')}`;
-      
-      // Clear any existing localStorage data for this user to avoid sync issues
-      // BUT keep the device ID storage
-      console.log('[MatrixDriver] Clearing localStorage for key:', storageKey);
-      try {
-        // Clear all localStorage keys that might be related to Matrix sync
-        // but preserve the device ID key
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < window.localStorage.length; i++) {
-          const key = window.localStorage.key(i);
-          if (key && 
-              !key.startsWith('matrix_device_') && // Don't clear device ID storage
-              (key.includes('matrix') || key.includes(storageKey))) {
-            keysToRemove.push(key);
-          }
-        }
-        keysToRemove.forEach(key => {
-          console.log('[MatrixDriver] Removing localStorage key:', key);
-          window.localStorage.removeItem(key);
-        });
-      } catch (e) {
-        console.warn('[MatrixDriver] Could not clear localStorage:', e);
-      }
-      
-      // Create stores for the client
-      const store = new sdk.MemoryStore();
+      // Sync data is persisted per user so reloads resume from the last sync
+      const store = this.createSyncStore(config.userId);
       
       // Create an IndexedDB crypto store for persistent encryption support
       // This allows keys to persist across sessions
@@ -121,134 +229,55 @@ export class MatrixDriver {
       this.client = sdk.createClient({
         baseUrl: config.homeserverUrl,
         accessToken: config.accessToken,
+        // With a refresh token the SDK renews expired access tokens itself
+        refreshToken: config.refreshToken,
+        tokenRefreshFunction: config.tokenRefreshFunction,
         userId: config.userId,
         deviceId: config.deviceId, // Critical for encryption - must be consistent
-        // Use memory store to avoid IndexedDB issues with saved sync
+        // Persistent sync store - rooms and timelines load from cache on startup
         store: store,
         // Use crypto store for encryption support
         cryptoStore: cryptoStore,
+        cryptoCallbacks: config.cryptoCallbacks,
         // Time before sync timeout
         timelineSupport: true,
         // Ensure we use the same device ID for crypto
         useAuthorizationHeader: true,
       });
 
-      // Get device ID from whoami - this validates the token
-      try {
-        const { device_id } = await this.client.whoami();
-        this.updateState({ deviceId: device_id || null });
-        console.log('[MatrixDriver] Token validated, device_id:', device_id);
-      } catch (whoamiError) {
-        console.error('[MatrixDriver] Token validation failed (whoami):', whoamiError);
-        throw whoamiError;
-      }
+      await this.startSyncStore(config.userId);
 
-      // Initialize crypto for encrypted rooms
+      // Confirm the device in the background - startup runs from the cache, and an invalid
+      // token surfaces as a session expiry once sync reaches the server
+      this.client.whoami()
+        .then(({ device_id }) => {
+          if (device_id) this.updateState({ deviceId: device_id });
+          console.log('[MatrixDriver] Token validated, device_id:', device_id);
+        })
+        .catch((whoamiError) => {
+          console.warn('[MatrixDriver] Could not validate token (whoami):', whoamiError);
+        });
+
+      // Crypto has to be running before sync starts, or to-device room keys are missed
       console.log('[MatrixDriver] 🔐 Initializing crypto for encrypted rooms...');
       try {
-        // @ts-ignore - Check if crypto needs initialization
-        const cryptoEnabled = this.client.isCryptoEnabled?.() || this.client.getCrypto?.() !== null;
-        console.log('[MatrixDriver] Current crypto status:', cryptoEnabled ? 'enabled' : 'disabled');
-        
-        if (!cryptoEnabled) {
-          // Try different crypto initialization methods based on SDK version
-          // @ts-ignore - Try Rust crypto first (newer SDK versions)
-          if (this.client.initRustCrypto) {
-            console.log('[MatrixDriver] 🔐 Initializing Rust crypto backend...');
-            try {
-              // @ts-ignore
-              await this.client.initRustCrypto();
-              console.log('[MatrixDriver] ✅ Rust crypto initialized successfully');
-            } catch (rustError) {
-              console.warn('[MatrixDriver] Rust crypto failed, trying legacy crypto:', rustError);
-              // @ts-ignore - Fall back to legacy crypto
-              if (this.client.initCrypto) {
-                // @ts-ignore
-                await this.client.initCrypto();
-                console.log('[MatrixDriver] ✅ Legacy crypto initialized as fallback');
-              }
-            }
-          }
-          // @ts-ignore - Try legacy crypto if Rust crypto not available
-          else if (this.client.initCrypto) {
-            console.log('[MatrixDriver] 🔐 Initializing legacy crypto backend...');
-            // @ts-ignore
-            await this.client.initCrypto();
-            console.log('[MatrixDriver] ✅ Legacy crypto initialized successfully');
-          } 
-          // @ts-ignore - For older SDK versions, crypto might auto-initialize
-          else if (this.client.isCryptoEnabled && !this.client.isCryptoEnabled()) {
-            console.log('[MatrixDriver] 🔐 Attempting to enable crypto via client start...');
-            // Crypto will be initialized when client starts
-          } else {
-            console.warn('[MatrixDriver] ⚠️ No crypto initialization method available in this SDK version');
-          }
-          
-          // @ts-ignore - Verify crypto is now enabled
-          const nowEnabled = this.client.isCryptoEnabled?.() || this.client.getCrypto?.() !== null;
-          console.log('[MatrixDriver] Crypto status after init:', nowEnabled ? '✅ ENABLED' : '❌ DISABLED');
-          
-          if (nowEnabled) {
-            // @ts-ignore - Set up cross-signing if available
-            if (this.client.getCrypto?.()?.bootstrapCrossSigning) {
-              console.log('[MatrixDriver] Setting up cross-signing for device verification...');
-              try {
-                // @ts-ignore
-                await this.client.getCrypto().bootstrapCrossSigning({
-                  authUploadDeviceSigningKeys: async () => {
-                    // Auto-approve for simplicity
-                    // @ts-ignore - Return type mismatch
-                    return;
-                  }
-                });
-                console.log('[MatrixDriver] ✅ Cross-signing configured');
-              } catch (e) {
-                console.warn('[MatrixDriver] Could not set up cross-signing:', e);
-              }
-            }
-            
-            // Set up key backup for recovery
-            // @ts-ignore
-            if (this.client.getCrypto?.()?.checkKeyBackup) {
-              console.log('[MatrixDriver] Checking key backup status...');
-              try {
-                // @ts-ignore
-                const backupInfo = await this.client.getCrypto().checkKeyBackup();
-                if (!backupInfo) {
-                  console.log('[MatrixDriver] No key backup found, creating one...');
-                  // @ts-ignore
-                  if (this.client.getCrypto().createKeyBackupVersion) {
-                    try {
-                      // @ts-ignore
-                      await this.client.getCrypto().createKeyBackupVersion();
-                      console.log('[MatrixDriver] ✅ Key backup created');
-                    } catch (e) {
-                      console.warn('[MatrixDriver] Could not create key backup:', e);
-                    }
-                  }
-                } else {
-                  console.log('[MatrixDriver] Key backup already exists');
-                  // Try to restore from backup
-                  // @ts-ignore
-                  if (this.client.getCrypto().restoreKeyBackup) {
-                    console.log('[MatrixDriver] Attempting to restore from key backup...');
-                    try {
-                      // @ts-ignore
-                      await this.client.getCrypto().restoreKeyBackup();
-                      console.log('[MatrixDriver] ✅ Keys restored from backup');
-                    } catch (e) {
-                      console.warn('[MatrixDriver] Could not restore from key backup:', e);
-                    }
-                  }
-                }
-              } catch (e) {
-                console.warn('[MatrixDriver] Error checking key backup:', e);
-              }
-            }
-          }
-        } else {
-          console.log('[MatrixDriver] ✅ Crypto already enabled');
+        if (!this.client.getCrypto()) {
+          await this.client.initRustCrypto();
+          console.log('[MatrixDriver] ✅ Rust crypto initialized');
         }
+
+        // Cross-signing and secret storage need the user's recovery key or password,
+        // so they are set up from Settings - here we only resume uploading to a trusted backup.
+        // Needs the server, so it doesn't hold up startup
+        this.client.getCrypto()?.checkKeyBackupAndEnable()
+          .then((backupCheck) => {
+            console.log('[MatrixDriver] Key backup:', backupCheck
+              ? `version ${backupCheck.backupInfo.version}, trusted: ${backupCheck.trustInfo.trusted}`
+              : 'none');
+          })
+          .catch((backupError) => {
+            console.warn('[MatrixDriver] Error checking key backup:', backupError);
+          });
       } catch (cryptoError) {
         console.error('[MatrixDriver] ❌ Failed to initialize crypto:', cryptoError);
         // Continue anyway - unencrypted rooms will still work
@@ -270,7 +299,8 @@ export class MatrixDriver {
 
   /**
    * Start the Matrix client (begin syncing)
-   * Uses sliding sync to get only the 20 most recent rooms by activity
+   * Uses sliding sync (MSC4186) for the most recent rooms when the homeserver supports it,
+   * otherwise classic /sync
    */
   async start(): Promise<void> {
     if (!this.client) {
@@ -284,15 +314,21 @@ export class MatrixDriver {
 
     try {
       this.updateState({ syncing: true });
+      this.setConnection({ status: 'connecting', attempt: 0, nextRetryAt: null });
+      this.startHealthMonitor();
       
-      console.log('[MatrixDriver] Starting sync (will filter to 20 most recent rooms)...');
+      this.slidingSync = await this.createSlidingSync();
+      console.log(`[MatrixDriver] Starting ${this.slidingSync ? 'sliding' : 'classic'} sync...`);
       
       // Configure sync options - get initial messages for better UX
       const syncOptions = {
+        // Set for sliding sync - the SDK then drives the room list from it instead of /sync
+        slidingSync: this.slidingSync ?? undefined,
+        
         // Initial sync gets more messages for better UX
         initialSyncLimit: 20,
         
-        // Include only joined rooms, not archived
+        // Joined and invited rooms only - rooms we've left aren't listed
         includeArchivedRooms: false,
         
         // Use lazy loading for room members to reduce data
@@ -306,10 +342,6 @@ export class MatrixDriver {
         disablePresence: true
       };
       
-      // Since we're using MemoryStore, we don't need to clear any persisted data
-      // The MemoryStore starts fresh each time
-      console.log('[MatrixDriver] Using MemoryStore - no persisted sync data to clear');
-      
       // Check current sync state before starting
       const currentSyncState = this.client.getSyncState();
       console.log('[MatrixDriver] Current sync state before start:', currentSyncState);
@@ -319,6 +351,7 @@ export class MatrixDriver {
       // @ts-ignore - Some options might not be in type definitions
       await this.client.startClient(syncOptions);
       this.syncStarted = true;
+      this.updateState({ syncMode: this.slidingSync ? 'sliding' : 'classic' });
       
       // Check sync state immediately after start
       const newSyncState = this.client.getSyncState();
@@ -329,7 +362,9 @@ export class MatrixDriver {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to start client';
       console.error('[MatrixDriver] Failed to start client:', error);
+      this.stopHealthMonitor();
       this.updateState({ error: errorMessage, syncing: false });
+      this.setConnection({ status: 'disconnected', attempt: 0, nextRetryAt: null });
       throw error;
     }
   }
@@ -344,6 +379,10 @@ export class MatrixDriver {
     }
 
     console.log(`[MatrixDriver] focusRoom called for ${roomId}`);
+    if (this.slidingSync) {
+      await this.subscribeToRoom(roomId);
+    }
+
     const room = this.client.getRoom(roomId);
     if (!room) {
       console.warn(`[MatrixDriver] Room ${roomId} not found in client`);
@@ -382,8 +421,7 @@ export class MatrixDriver {
         console.log(`[MatrixDriver] After pagination: ${afterPagination.length} events in timeline`);
         
         // For encrypted rooms, trigger quick decryption attempts (no waiting)
-        // @ts-ignore - isCryptoEnabled might not be in type definitions
-        if (isEncrypted && this.client.isCryptoEnabled?.()) {
+        if (isEncrypted && this.client.getCrypto()) {
           console.log(`[MatrixDriver] Triggering decryption for encrypted events...`);
           
           // Try a quick decrypt for all encrypted events (don't wait for slow ones)
@@ -431,12 +469,18 @@ export class MatrixDriver {
           this.syncStarted = false;
         }
         this.removeEventListeners();
+        this.stopHealthMonitor();
+        this.relationTargets.clear();
+        this.slidingSync = null;
+        this.focusedRooms = [];
         this.client = null;
         this.updateState({ 
           connected: false, 
           syncing: false, 
           error: null, 
-          deviceId: null 
+          deviceId: null,
+          syncMode: null,
+          connection: { status: 'disconnected', attempt: 0, nextRetryAt: null }
         });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to stop client';
@@ -445,6 +489,184 @@ export class MatrixDriver {
     }
   }
 
+  /**
+   * Carry on with new credentials after the session expired
+   * Builds a fresh client for the same user and device, so the persisted crypto and sync
+   * stores are picked up again and subscribers stay attached
+   */
+  async resumeSession(tokens: { accessToken: string; refreshToken?: string }): Promise<void> {
+    if (!this.config) {
+      throw new Error('Driver not initialized');
+    }
+
+    console.log('[MatrixDriver] Resuming session with new access token');
+    await this.initialize({ ...this.config, ...tokens });
+    await this.start();
+  }
+
+  /**
+   * Whether this device's keys are backed up and recoverable
+   * Null while encryption is unavailable
+   */
+  async getKeyBackupStatus(): Promise<MatrixKeyBackupStatus | null> {
+    const client = this.client;
+    const crypto = client?.getCrypto();
+    if (!client || !crypto) return null;
+
+    const [crossSigningReady, secretStorageReady, defaultKeyId, backupInfo, activeVersion] = await Promise.all([
+      crypto.isCrossSigningReady(),
+      crypto.isSecretStorageReady(),
+      client.secretStorage.getDefaultKeyId(),
+      crypto.getKeyBackupInfo(),
+      crypto.getActiveSessionBackupVersion(),
+    ]);
+
+    return {
+      crossSigningReady,
+      secretStorageReady,
+      hasRecoveryKey: !!defaultKeyId,
+      backupVersion: backupInfo?.version ?? null,
+      backupEnabled: activeVersion !== null,
+    };
+  }
+
+  /**
+   * Export every room key this device holds as a passphrase-protected key file
+   * The file works with any Matrix client's key import
+   */
+  async exportRoomKeys(passphrase: string): Promise<string> {
+    const crypto = this.client?.getCrypto();
+    if (!crypto) {
+      throw new Error('Encryption is not available');
+    }
+    return await encryptKeyExport(await crypto.exportRoomKeysAsJson(), passphrase);
+  }
+
+  /**
+   * Import room keys from a key file, e.g. one exported by another Matrix client
+   * Messages waiting on the imported keys are decrypted as they arrive
+   */
+  async importRoomKeys(
+    file: string,
+    passphrase: string,
+    onProgress?: (imported: number, total: number) => void
+  ): Promise<{ imported: number; total: number }> {
+    const crypto = this.client?.getCrypto();
+    if (!crypto) {
+      throw new Error('Encryption is not available');
+    }
+
+    const keysJson = await decryptKeyExport(file, passphrase);
+    let result = { imported: 0, total: 0 };
+    await crypto.importRoomKeysAsJson(keysJson, {
+      progressCallback: (progress) => {
+        if (progress.stage !== ImportRoomKeyStage.LoadKeys) return;
+        result = { imported: progress.successes, total: progress.total };
+        onProgress?.(progress.successes + progress.failures, progress.total);
+      },
+    });
+    console.log(`[MatrixDriver] Imported ${result.imported} of ${result.total} room keys`);
+    return result;
+  }
+
+  /**
+   * Every device signed in to our account, current device first then most recently seen
+   */
+  async getDevices(): Promise<MatrixDevice[]> {
+    if (!this.client) {
+      throw new Error('Driver not initialized');
+    }
+
+    const userId = this.client.getUserId();
+    const currentDeviceId = this.client.getDeviceId();
+    const crypto = this.client.getCrypto();
+    const { devices } = await this.client.getDevices();
+
+    const result = await Promise.all(devices.map(async (device) => {
+      const status = userId ? await crypto?.getDeviceVerificationStatus(userId, device.device_id) : null;
+      return {
+        deviceId: device.device_id,
+        displayName: device.display_name,
+        lastSeenIp: device.last_seen_ip,
+        lastSeenTs: device.last_seen_ts,
+        isCurrent: device.device_id === currentDeviceId,
+        isVerified: status?.crossSigningVerified ?? false,
+      };
+    }));
+
+    return result.sort((a, b) =>
+      Number(b.isCurrent) - Number(a.isCurrent) || (b.lastSeenTs ?? 0) - (a.lastSeenTs ?? 0)
+    );
+  }
+
+  async renameDevice(deviceId: string, displayName: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('Driver not initialized');
+    }
+    await this.client.setDeviceDetails(deviceId, { display_name: displayName });
+  }
+
+  /**
+   * Sign devices out of the account
+   * The homeserver demands user-interactive auth, so expect a 401 until `auth` is complete
+   */
+  async deleteDevices(deviceIds: string[], auth: AuthDict | null): Promise<void> {
+    if (!this.client) {
+      throw new Error('Driver not initialized');
+    }
+    await this.client.deleteMultipleDevices(deviceIds, auth ?? undefined);
+  }
+
+  /**
+   * Retry the sync connection straight away instead of waiting for the next backoff step
+   */
+  reconnectNow(): void {
+    if (!this.client || !this.syncStarted) return;
+
+    const { status } = this.state.connection;
+    if (status !== 'reconnecting' && status !== 'offline') return;
+
+    console.log('[MatrixDriver] Reconnect requested');
+    this.client.retryImmediately();
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Drop the persisted sync data so the next session performs a full initial sync
+   * Stops the client - the caller creates a fresh session afterwards
+   */
+  async clearSyncCache(): Promise<void> {
+    if (!this.client) return;
+
+    const store = this.client.store;
+    const userId = this.client.getUserId();
+    await this.stop();
+    await store.deleteAllData();
+    if (userId) {
+      window.localStorage.removeItem(this.getSyncSchemaKey(userId));
+    }
+    console.log('[MatrixDriver] Sync cache cleared');
+  }
+
+  /**
+   * Delete everything stored for this device - sync data and encryption keys
+   * Only for a device the homeserver has signed out, whose keys are useless afterwards
+   */
+  async clearAllStores(): Promise<void> {
+    const client = this.client;
+    if (!client) return;
+
+    const userId = client.getUserId();
+    // The crypto databases can't be deleted while the client still has them open
+    client.stopClient();
+    await this.stop();
+    await client.clearStores();
+    if (userId) {
+      window.localStorage.removeItem(this.getSyncSchemaKey(userId));
+    }
+    console.log('[MatrixDriver] All stores cleared');
+  }
+
   /**
    * Get the current Matrix client (for adapter use)
    */
@@ -546,6 +768,86 @@ export class MatrixDriver {
     };
   }
 
+  /**
+   * Subscribe to updates of existing timeline events
+   * Fired for reactions, edits and redactions - the callback receives
+   * the ID of the event whose rendered state changed
+   */
+  onEventUpdate(callback: (event: MatrixEvent, room: Room, targetEventId: string) => void): () => void {
+    this.listeners.eventUpdate.push(callback);
+    return () => {
+      const index = this.listeners.eventUpdate.indexOf(callback);
+      if (index > -1) {
+        this.listeners.eventUpdate.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to typing notification changes in a room
+   */
+  onTyping(callback: (room: Room) => void): () => void {
+    this.listeners.typing.push(callback);
+    return () => {
+      const index = this.listeners.typing.indexOf(callback);
+      if (index > -1) {
+        this.listeners.typing.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to read receipt changes in a room
+   */
+  onReceipt(callback: (room: Room) => void): () => void {
+    this.listeners.receipt.push(callback);
+    return () => {
+      const index = this.listeners.receipt.indexOf(callback);
+      if (index > -1) {
+        this.listeners.receipt.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to the homeserver rejecting the session's access token
+   */
+  onSessionExpired(callback: (expiry: MatrixSessionExpiry) => void): () => void {
+    this.listeners.sessionExpired.push(callback);
+    return () => {
+      const index = this.listeners.sessionExpired.indexOf(callback);
+      if (index > -1) {
+        this.listeners.sessionExpired.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to incoming verification requests from other users or our other devices
+   */
+  onVerificationRequest(callback: (request: VerificationRequest) => void): () => void {
+    this.listeners.verificationRequest.push(callback);
+    return () => {
+      const index = this.listeners.verificationRequest.indexOf(callback);
+      if (index > -1) {
+        this.listeners.verificationRequest.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to changes that may affect getKeyBackupStatus
+   */
+  onKeyBackupChange(callback: () => void): () => void {
+    this.listeners.keyBackupChange.push(callback);
+    return () => {
+      const index = this.listeners.keyBackupChange.indexOf(callback);
+      if (index > -1) {
+        this.listeners.keyBackupChange.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Subscribe to room update events
    */
@@ -565,64 +867,123 @@ export class MatrixDriver {
     // Handle timeline events (messages)
     // @ts-ignore - Matrix SDK event types
     this.client.on('Room.timeline', (event: MatrixEvent, room: Room, toStartOfTimeline: boolean) => {
+      // Track relation targets even for paginated history so later redactions resolve
+      const relationTarget = this.trackRelation(event);
+
       if (toStartOfTimeline) return;
       
-      // Only process message events, ignore others to reduce noise
-      if (event.getType() === 'm.room.message') {
+      // Reactions and edits update an existing message rather than adding one
+      if (relationTarget) {
+        this.listeners.eventUpdate.forEach(callback => callback(event, room, relationTarget));
+      } else if (event.getType() === 'm.room.message' && event.status === null) {
+        // Only process message events, ignore others to reduce noise
+        // Local echoes of our own messages are announced once the server confirms them
         this.listeners.message.forEach(callback => callback(event, room));
         // Trigger room update so the room list can re-sort if needed
         this.listeners.roomUpdate.forEach(callback => callback(room));
       }
     });
 
+    // Our own event was sent (it now has its real ID) or came back in the sync
+    // @ts-ignore - Matrix SDK event types
+    this.client.on('Room.localEchoUpdated', (event: MatrixEvent, room: Room, _oldEventId?: string, oldStatus?: string | null) => {
+      // Re-key relation tracking from the local ID to the real one
+      const relationTarget = this.trackRelation(event);
+
+      if (relationTarget || event.status !== null || oldStatus === null) return;
+
+      if (event.getType() === 'm.room.message') {
+        this.listeners.message.forEach(callback => callback(event, room));
+        this.listeners.roomUpdate.forEach(callback => callback(room));
+      }
+    });
+
+    // Handle redactions - either the message itself or one of its relations was removed
+    // @ts-ignore - Matrix SDK event types
+    this.client.on('Room.redaction', (redactionEvent: MatrixEvent, room: Room) => {
+      const redactedId = redactionEvent.event.redacts || redactionEvent.getContent().redacts;
+      if (!redactedId) return;
+
+      const targetEventId = this.relationTargets.get(redactedId) || redactedId;
+      this.relationTargets.delete(redactedId);
+      this.listeners.eventUpdate.forEach(callback => callback(redactionEvent, room, targetEventId));
+    });
+
     // Handle room updates
     // @ts-ignore - Matrix SDK event types
     this.client.on('Room', (room: Room) => {
+      this.watchUnreadNotifications(room);
       this.listeners.roomUpdate.forEach(callback => callback(room));
     });
+    this.client.getRooms().forEach(room => this.watchUnreadNotifications(room));
 
-    // Handle encryption events
+    // Handle typing notifications (m.typing EDUs are applied per member)
     // @ts-ignore - Matrix SDK event types
-    this.client.on('crypto.roomKeyRequest', (req: any) => {
-      console.log('[MatrixDriver] 🔑 Room key requested:', req);
-      // Auto-approve key requests from our own devices
-      if (req.userId === this.client?.getUserId()) {
-        console.log('[MatrixDriver] Auto-approving key request from own device');
+    this.client.on('RoomMember.typing', (_event: MatrixEvent, member: RoomMember) => {
+      const room = this.client?.getRoom(member.roomId);
+      if (room) {
+        this.listeners.typing.forEach(callback => callback(room));
       }
     });
-    
+
+    // Handle read receipts (m.receipt EDUs)
     // @ts-ignore - Matrix SDK event types
-    this.client.on('crypto.roomKeyRequestCancellation', (req: any) => {
-      console.log('[MatrixDriver] 🔑 Room key request cancelled:', req);
+    this.client.on('Room.receipt', (_event: MatrixEvent, room: Room) => {
+      this.listeners.receipt.forEach(callback => callback(room));
+      // Our own receipt moves the room's read marker
+      this.listeners.roomUpdate.forEach(callback => callback(room));
     });
-    
-    // @ts-ignore - Matrix SDK event types  
-    this.client.on('crypto.warning', (type: string) => {
-      console.warn('[MatrixDriver] ⚠️ Crypto warning:', type);
+
+    // Invites arriving, being accepted or declined, and rooms we were removed from
+    this.client.on(sdk.RoomEvent.MyMembership, (room) => {
+      this.listeners.roomUpdate.forEach(callback => callback(room));
     });
-    
-    // @ts-ignore - Matrix SDK event types
-    this.client.on('Event.decrypted', (event: any) => {
-      console.log(`[MatrixDriver] 🔓 Event decrypted: ${event.getId()}`);
-      // Notify listeners that a room has updated (messages decrypted)
+
+    // m.direct decides which rooms are DMs, so re-announce every room it lists
+    this.client.on(sdk.ClientEvent.AccountData, (event, previousEvent) => {
+      if (event.getType() !== sdk.EventType.Direct) return;
+
+      const roomIds = new Set([event, previousEvent]
+        .flatMap(directEvent => Object.values(directEvent?.getContent<Record<string, string[]>>() ?? {}))
+        .flat());
+      roomIds.forEach((roomId) => {
+        const room = this.client?.getRoom(roomId);
+        if (room) {
+          this.listeners.roomUpdate.forEach(callback => callback(room));
+        }
+      });
+    });
+
+    // State that changes how a room is classified, listed or configured
+    this.client.on(sdk.RoomStateEvent.Events, (event) => {
+      if (!ROOM_UPDATE_STATE_EVENTS.has(event.getType())) return;
+
       const room = this.client?.getRoom(event.getRoomId());
       if (room) {
         this.listeners.roomUpdate.forEach(callback => callback(room));
       }
     });
-    
-    // @ts-ignore - Matrix SDK event types
-    this.client.on('crypto.verification.request', (request: any) => {
-      console.log('[MatrixDriver] 🔐 Device verification requested:', request);
-      // For now, auto-accept verification requests
-      // In production, you'd want user confirmation
-      try {
-        // @ts-ignore
-        request.accept?.();
-      } catch (e) {
-        console.warn('[MatrixDriver] Could not auto-accept verification:', e);
+
+    // Fired for failed attempts too, so a message's failure reason stays current
+    this.client.on(sdk.MatrixEventEvent.Decrypted, (event) => {
+      console.log(`[MatrixDriver] 🔓 Event ${event.isDecryptionFailure() ? 'failed to decrypt' : 'decrypted'}: ${event.getId()}`);
+      const room = this.client?.getRoom(event.getRoomId());
+      const eventId = event.getId();
+      if (room && eventId) {
+        // Encrypted reactions and edits only reveal their target once decrypted;
+        // anything else updates the message itself in place
+        const relationTarget = this.trackRelation(event);
+        const targetEventId = relationTarget ?? eventId;
+        this.listeners.eventUpdate.forEach(callback => callback(event, room, targetEventId));
+        this.listeners.roomUpdate.forEach(callback => callback(room));
       }
     });
+    
+    // Verification needs the user to compare emoji or scan a code, so requests are only forwarded
+    this.client.on(CryptoEvent.VerificationRequestReceived, (request) => {
+      console.log(`[MatrixDriver] 🔐 Verification requested by ${request.otherUserId} (${request.otherDeviceId ?? 'any device'})`);
+      this.listeners.verificationRequest.forEach(callback => callback(request));
+    });
 
     // Handle sync state changes
     // @ts-ignore - Matrix SDK event types
@@ -630,17 +991,8 @@ export class MatrixDriver {
       console.log(`[MatrixDriver] Sync state transition: ${prevState} -> ${state}`, data ? 'with data' : 'no data');
       
       if (state === 'PREPARED') {
-        // Check crypto status when sync is ready
-        // @ts-ignore
-        const cryptoReady = this.client?.isCryptoEnabled?.() || false;
-        console.log('[MatrixDriver] Crypto status at PREPARED:', cryptoReady ? '✅ Ready' : '⚠️ Not ready');
-        
-        // When sync is ready, try to verify our own device if needed
-        if (cryptoReady) {
-          this.setupDeviceVerification();
-        }
-        
         this.updateState({ connected: true, syncing: false });
+        this.markLive();
         
         // Log when sync is ready with room information
         const rooms = this.client?.getRooms() || [];
@@ -675,21 +1027,47 @@ export class MatrixDriver {
         }
       } else if (state === 'SYNCING') {
         this.updateState({ syncing: true });
+        this.markLive();
         console.log('[MatrixDriver] 🔄 SYNCING - Processing sync data from server...');
+      } else if (state === 'CATCHUP') {
+        // The server is reachable again and the SDK is fetching what was missed
+        console.log('[MatrixDriver] 🔄 CATCHUP - Connection restored, catching up...');
+        this.clearReconnectTimer();
+        this.setConnection({ status: 'catching-up', nextRetryAt: null });
       } else if (state === 'ERROR') {
-        this.updateState({ error: 'Sync error occurred', syncing: false });
         console.error('[MatrixDriver] ❌ SYNC ERROR:', data);
+        this.updateState({ syncing: false });
+        this.handleSyncFailure(data?.error);
       } else if (state === 'RECONNECTING') {
         console.log('[MatrixDriver] 🔄 RECONNECTING - Attempting to restore connection...');
         this.updateState({ syncing: true });
+        this.handleSyncFailure(data?.error);
       } else if (state === 'STOPPED') {
         console.log('[MatrixDriver] ⏹️ SYNC STOPPED');
+        this.clearReconnectTimer();
         this.updateState({ connected: false, syncing: false });
+        if (this.state.connection.status !== 'auth-failed') {
+          this.setConnection({ status: 'disconnected', nextRetryAt: null });
+        }
       } else {
         console.log('[MatrixDriver] Unknown sync state:', state);
       }
     });
 
+    // Backup and cross-signing state is read on demand, listeners just learn when to re-read it
+    const notifyKeyBackupChange = () => this.listeners.keyBackupChange.forEach(callback => callback());
+    this.client.on(CryptoEvent.KeyBackupStatus, notifyKeyBackupChange);
+    this.client.on(CryptoEvent.KeyBackupFailed, notifyKeyBackupChange);
+    this.client.on(CryptoEvent.KeyBackupDecryptionKeyCached, notifyKeyBackupChange);
+    this.client.on(CryptoEvent.KeysChanged, notifyKeyBackupChange);
+
+    // The homeserver rejected our access token - retrying won't help
+    this.client.on(sdk.HttpApiEvent.SessionLoggedOut, (error) => {
+      const softLogout = error.data?.soft_logout === true;
+      console.error(`[MatrixDriver] ${softLogout ? 'Soft' : 'Hard'} logout by homeserver:`, error);
+      this.markAuthFailed(softLogout);
+    });
+
     // Handle connection errors
     // @ts-ignore - Matrix SDK event types
     this.client.on('clientWellKnown', (_wellKnown: any) => {
@@ -697,6 +1075,37 @@ export class MatrixDriver {
     });
   }
 
+  /**
+   * Remember which event a reaction annotates or an edit replaces
+   * Returns the target event ID for such relations, null otherwise
+   */
+  private trackRelation(event: MatrixEvent): string | null {
+    const relation = event.getRelation();
+    if (!relation?.event_id) return null;
+
+    const isReaction = event.getType() === 'm.reaction' && relation.rel_type === 'm.annotation';
+    const isEdit = event.getType() === 'm.room.message' && relation.rel_type === 'm.replace';
+    if (!isReaction && !isEdit) return null;
+
+    const eventId = event.getId();
+    if (eventId) {
+      this.relationTargets.set(eventId, relation.event_id);
+    }
+    return relation.event_id;
+  }
+
+  /**
+   * Notification counts are emitted on the room itself, not re-emitted by the client
+   */
+  private watchUnreadNotifications(room: Room): void {
+    if (this.watchedRooms.has(room)) return;
+    this.watchedRooms.add(room);
+
+    room.on(sdk.RoomEvent.UnreadNotifications, () => {
+      this.listeners.roomUpdate.forEach(callback => callback(room));
+    });
+  }
+
   private removeEventListeners(): void {
     if (!this.client) return;
     
@@ -704,98 +1113,321 @@ export class MatrixDriver {
     // @ts-ignore - Matrix SDK event types
     this.client.removeAllListeners('Room.timeline');
     // @ts-ignore - Matrix SDK event types
+    this.client.removeAllListeners('Room.localEchoUpdated');
+    // @ts-ignore - Matrix SDK event types
+    this.client.removeAllListeners('Room.redaction');
+    // @ts-ignore - Matrix SDK event types
+    this.client.removeAllListeners('RoomMember.typing');
+    // @ts-ignore - Matrix SDK event types
+    this.client.removeAllListeners('Room.receipt');
+    // @ts-ignore - Matrix SDK event types
     this.client.removeAllListeners('Room');
     // @ts-ignore - Matrix SDK event types
     this.client.removeAllListeners('sync');
     // @ts-ignore - Matrix SDK event types
     this.client.removeAllListeners('clientWellKnown');
+    this.client.removeAllListeners(sdk.HttpApiEvent.SessionLoggedOut);
+    this.client.removeAllListeners(sdk.MatrixEventEvent.Decrypted);
+    this.client.removeAllListeners(sdk.ClientEvent.AccountData);
+    this.client.removeAllListeners(sdk.RoomStateEvent.Events);
+    this.client.removeAllListeners(sdk.RoomEvent.MyMembership);
+    this.client.removeAllListeners(CryptoEvent.VerificationRequestReceived);
+    this.client.removeAllListeners(CryptoEvent.KeyBackupStatus);
+    this.client.removeAllListeners(CryptoEvent.KeyBackupFailed);
+    this.client.removeAllListeners(CryptoEvent.KeyBackupDecryptionKeyCached);
+    this.client.removeAllListeners(CryptoEvent.KeysChanged);
   }
 
-  private updateState(updates: Partial<MatrixDriverState>): void {
-    this.state = { ...this.state, ...updates };
-    this.listeners.stateChange.forEach(callback => callback(this.getState()));
+  /**
+   * Watch browser connectivity and detect syncs that silently stopped returning
+   */
+  private startHealthMonitor(): void {
+    this.stopHealthMonitor();
+    this.lastSyncAt = Date.now();
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    this.healthTimer = setInterval(this.checkSyncHealth, HEALTH_CHECK_INTERVAL_MS);
   }
-  
+
+  private stopHealthMonitor(): void {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    this.clearReconnectTimer();
+  }
+
+  private handleOnline = (): void => {
+    if (!this.client || this.state.connection.status !== 'offline') return;
+
+    console.log('[MatrixDriver] Browser back online, reconnecting...');
+    this.client.retryImmediately();
+    this.scheduleReconnect();
+  };
+
+  private handleOffline = (): void => {
+    if (this.state.connection.status === 'auth-failed') return;
+
+    console.log('[MatrixDriver] Browser went offline');
+    this.clearReconnectTimer();
+    this.setConnection({ status: 'offline', nextRetryAt: null });
+  };
+
+  private checkSyncHealth = (): void => {
+    if (!this.client || this.state.connection.status !== 'live') return;
+
+    const silentFor = Date.now() - this.lastSyncAt;
+    if (silentFor > SYNC_STALL_TIMEOUT_MS) {
+      console.warn(`[MatrixDriver] No sync response for ${Math.round(silentFor / 1000)}s, reconnecting...`);
+      this.client.retryImmediately();
+      this.scheduleReconnect();
+    }
+  };
+
+  private markLive(): void {
+    this.lastSyncAt = Date.now();
+    this.clearReconnectTimer();
+
+    const { connection } = this.state;
+    if (connection.status !== 'live' || connection.attempt !== 0 || this.state.error) {
+      this.updateState({
+        connected: true,
+        error: null,
+        connection: { status: 'live', attempt: 0, nextRetryAt: null },
+      });
+    }
+  }
+
+  private markAuthFailed(softLogout: boolean): void {
+    if (this.state.connection.status === 'auth-failed') return;
+
+    this.clearReconnectTimer();
+    this.updateState({
+      connected: false,
+      syncing: false,
+      error: 'Session expired - please sign in again',
+      connection: { status: 'auth-failed', attempt: this.state.connection.attempt, nextRetryAt: null },
+    });
+    this.listeners.sessionExpired.forEach(callback => callback({ softLogout }));
+  }
+
   /**
-   * Set up device verification for encryption
+   * React to a failed sync - give up on auth errors, wait for the network while
+   * offline and otherwise keep retrying with backoff
    */
-  private async setupDeviceVerification(): Promise<void> {
+  private handleSyncFailure(error?: unknown): void {
+    const { status } = this.state.connection;
+    if (status === 'auth-failed') return;
+
+    const errcode = (error as { errcode?: string } | undefined)?.errcode;
+    if (errcode === 'M_UNKNOWN_TOKEN') {
+      this.markAuthFailed((error as { data?: { soft_logout?: boolean } }).data?.soft_logout === true);
+      return;
+    }
+
+    // The refresh token was rejected, but the device is still ours
+    if (error instanceof sdk.TokenRefreshError) {
+      this.markAuthFailed(true);
+      return;
+    }
+
+    if (!navigator.onLine) {
+      this.handleOffline();
+      return;
+    }
+
+    // Already counting down - the SDK reports every failure, the schedule stays ours
+    if (status === 'reconnecting' && this.reconnectTimer) return;
+
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Schedule the next reconnect attempt with exponential backoff and jitter
+   * The SDK keeps polling on its own, so each attempt only cuts its wait short
+   */
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer();
+
+    const attempt = this.state.connection.attempt + 1;
+    const backoff = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    // Spread retries so clients dropped together don't reconnect in lockstep
+    const delay = Math.round(backoff * (0.8 + Math.random() * 0.4));
+
+    this.setConnection({ status: 'reconnecting', attempt, nextRetryAt: Date.now() + delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.client || this.state.connection.status !== 'reconnecting') return;
+
+      console.log(`[MatrixDriver] Reconnect attempt ${attempt}`);
+      this.client.retryImmediately();
+      this.scheduleReconnect();
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setConnection(updates: Partial<MatrixConnectionState>): void {
+    this.updateState({ connection: { ...this.state.connection, ...updates } });
+  }
+
+  private getSlidingSyncConfig(): SlidingSyncConfig {
+    return { ...DEFAULT_SLIDING_SYNC_CONFIG, ...this.config?.slidingSync };
+  }
+
+  /**
+   * Build the sliding sync connection, or return null to use classic sync
+   */
+  private async createSlidingSync(): Promise<SlidingSync | null> {
+    if (!this.client) return null;
+
+    const mode = this.config?.syncMode ?? 'auto';
+    if (mode === 'classic') return null;
+
+    const config = this.getSlidingSyncConfig();
+
+    // A configured proxy provides sliding sync whatever the homeserver supports
+    let supported = !!config.proxyUrl;
+    if (!supported) {
+      try {
+        supported = await this.client.doesServerSupportUnstableFeature(SLIDING_SYNC_FEATURE);
+      } catch (error) {
+        console.warn('[MatrixDriver] Could not check sliding sync support:', error);
+      }
+    }
+
+    if (!supported) {
+      if (mode === 'sliding') {
+        console.warn('[MatrixDriver] Homeserver does not support sliding sync, falling back to classic sync');
+      }
+      return null;
+    }
+
+    const roomList: MSC3575List = {
+      ranges: config.listRanges,
+      timeline_limit: config.listTimelineLimit,
+      // Enough state to name, classify, badge and decrypt the rooms in the list
+      required_state: [
+        [sdk.EventType.RoomCreate, ''],
+        [sdk.EventType.RoomName, ''],
+        [sdk.EventType.RoomAvatar, ''],
+        [sdk.EventType.RoomCanonicalAlias, ''],
+        [sdk.EventType.RoomEncryption, ''],
+        [sdk.EventType.RoomJoinRules, ''],
+        [sdk.EventType.RoomHistoryVisibility, ''],
+        [sdk.EventType.RoomTombstone, ''],
+        [sdk.EventType.RoomMember, MSC3575_STATE_KEY_ME],
+      ],
+    };
+
+    return new SlidingSync(
+      config.proxyUrl ?? this.client.baseUrl,
+      new Map([[ROOM_LIST_NAME, roomList]]),
+      {
+        timeline_limit: config.roomTimelineLimit,
+        // Full state for focused rooms - encrypted rooms need every member to share keys with
+        required_state: [[MSC3575_WILDCARD, MSC3575_WILDCARD]],
+      },
+      this.client,
+      config.timeoutMs
+    );
+  }
+
+  /**
+   * Subscribe to a room so its full state and a deeper timeline are synced
+   * Waits for the room to arrive when it isn't known yet, e.g. outside the list ranges
+   */
+  private async subscribeToRoom(roomId: string): Promise<void> {
+    const client = this.client;
+    if (!client || !this.slidingSync) return;
+
+    const { maxRoomSubscriptions } = this.getSlidingSyncConfig();
+    this.focusedRooms = [...this.focusedRooms.filter(id => id !== roomId), roomId].slice(-maxRoomSubscriptions);
+    this.slidingSync.modifyRoomSubscriptions(new Set(this.focusedRooms));
+
+    if (client.getRoom(roomId)) return;
+
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        client.removeListener(sdk.ClientEvent.Room, handleRoom);
+        resolve();
+      };
+      const handleRoom = (room: Room) => {
+        if (room.roomId === roomId) done();
+      };
+      const timer = setTimeout(done, ROOM_SUBSCRIPTION_TIMEOUT_MS);
+      client.on(sdk.ClientEvent.Room, handleRoom);
+    });
+  }
+
+  private getSyncSchemaKey(userId: string): string {
+    return `matrix_sync_schema_${userId.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  }
+
+  private createSyncStore(userId: string): sdk.IndexedDBStore | sdk.MemoryStore {
+    if (!window.indexedDB) {
+      console.warn('[MatrixDriver] IndexedDB not available, sync data will not persist');
+      return new sdk.MemoryStore({ localStorage: window.localStorage });
+    }
+
+    const store = new sdk.IndexedDBStore({
+      indexedDB: window.indexedDB,
+      localStorage: window.localStorage,
+      dbName: `matrix-sync-${userId.replace(/[^a-zA-Z0-9]/g, '_')}`,
+    });
+    store.on('degraded', (error: unknown) => {
+      console.warn('[MatrixDriver] Sync store degraded to memory:', error);
+    });
+    return store;
+  }
+
+  /**
+   * Load the persisted sync data, discarding it if it was written by an older schema
+   * A store that can't be opened is wiped once, then replaced by a memory store
+   */
+  private async startSyncStore(userId: string): Promise<void> {
     if (!this.client) return;
-    
+
+    const store = this.client.store;
+    if (!(store instanceof sdk.IndexedDBStore)) return;
+
+    const schemaKey = this.getSyncSchemaKey(userId);
+    const storedVersion = window.localStorage.getItem(schemaKey);
+
     try {
-      console.log('[MatrixDriver] Setting up device verification...');
-      
-      // Get our own device ID
-      const userId = this.client.getUserId();
-      const deviceId = this.state.deviceId || this.client.getDeviceId?.();
-      
-      if (!userId || !deviceId) {
-        console.warn('[MatrixDriver] Cannot verify device - missing user or device ID');
-        return;
-      }
-      
-      console.log(`[MatrixDriver] Verifying device ${deviceId} for user ${userId}`);
-      
-      // @ts-ignore - Check if we can mark our device as verified
-      const crypto = this.client.getCrypto?.();
-      if (crypto) {
-        // Try to get device info
-        // @ts-ignore
-        const devices = await crypto.getUserDevices([userId]);
-        const ourDevice = devices?.get(userId)?.get(deviceId);
-        
-        if (ourDevice) {
-          console.log('[MatrixDriver] Our device verification status:', ourDevice.verified);
-          
-          // If not verified, try to verify it
-          if (!ourDevice.verified) {
-            console.log('[MatrixDriver] Device not verified, attempting to verify...');
-            try {
-              // @ts-ignore
-              await crypto.setDeviceVerified(userId, deviceId, true);
-              console.log('[MatrixDriver] ✅ Device marked as verified');
-            } catch (e) {
-              console.warn('[MatrixDriver] Could not verify device:', e);
-            }
-          }
-        }
-        
-        // Also try to share keys with our other devices
-        console.log('[MatrixDriver] Requesting key share with other devices...');
-        try {
-          // @ts-ignore
-          if (crypto.requestRoomKeyForEvent) {
-            // This will request keys from our other verified devices
-            const rooms = this.client.getRooms();
-            for (const room of rooms.slice(0, 5)) { // Limit to first 5 rooms
-              if (room.hasEncryptionStateEvent?.()) {
-                console.log(`[MatrixDriver] Requesting keys for encrypted room ${room.roomId}`);
-                // Get timeline events
-                const timeline = room.getLiveTimeline();
-                const events = timeline.getEvents();
-                const encryptedEvents = events.filter(e => e.getType() === 'm.room.encrypted');
-                
-                // Request keys for first few encrypted events
-                for (const event of encryptedEvents.slice(0, 3)) {
-                  try {
-                    // @ts-ignore
-                    await crypto.requestRoomKeyForEvent(event);
-                  } catch (e) {
-                    // Ignore individual key request failures
-                  }
-                }
-              }
-            }
-          }
-        } catch (e) {
-          console.warn('[MatrixDriver] Error requesting keys:', e);
-        }
+      if (storedVersion !== null && storedVersion !== String(SYNC_STORE_SCHEMA_VERSION)) {
+        console.log(`[MatrixDriver] Sync store schema ${storedVersion} is outdated, clearing cache`);
+        await store.deleteAllData();
       }
+      await store.startup();
     } catch (error) {
-      console.error('[MatrixDriver] Failed to set up device verification:', error);
+      console.warn('[MatrixDriver] Failed to open sync store, clearing it:', error);
+      try {
+        await store.deleteAllData();
+        await store.startup();
+      } catch (retryError) {
+        console.error('[MatrixDriver] Sync store unusable, falling back to memory:', retryError);
+        this.client.store = new sdk.MemoryStore({ localStorage: window.localStorage });
+        return;
+      }
     }
+
+    window.localStorage.setItem(schemaKey, String(SYNC_STORE_SCHEMA_VERSION));
   }
 
+  private updateState(updates: Partial<MatrixDriverState>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.stateChange.forEach(callback => callback(this.getState()));
+  }
+  
   /**
    * Cleanup method for proper disposal
    */
@@ -804,5 +1436,11 @@ export class MatrixDriver {
     this.listeners.stateChange = [];
     this.listeners.message = [];
     this.listeners.roomUpdate = [];
+    this.listeners.eventUpdate = [];
+    this.listeners.typing = [];
+    this.listeners.receipt = [];
+    this.listeners.sessionExpired = [];
+    this.listeners.verificationRequest = [];
+    this.listeners.keyBackupChange = [];
   }
 }
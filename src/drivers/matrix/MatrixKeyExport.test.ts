@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase64, encodeBase64 } from './MatrixBase64';
+import { decryptKeyExport, encryptKeyExport } from './MatrixKeyExport';
+
+// Few PBKDF2 rounds keep the tests fast; the format stores the count in the header
+const ROUNDS = 1000;
+const KEYS_JSON = JSON.stringify([{ room_id: '!room:example.org', session_id: 'session', session_key: 'key' }]);
+
+// Flip one byte of the armoured body, counted from its end
+const tamper = (file: string, fromEnd: number): string => {
+  const lines = file.trim().split('\n');
+  const body = decodeBase64(lines.slice(1, -1).join(''));
+  body[body.length - fromEnd] ^= 0x01;
+  return [lines[0], encodeBase64(body, { padded: true }), lines[lines.length - 1]].join('\n');
+};
+
+describe('key export files', () => {
+  it('decrypts what it encrypted', async () => {
+    const file = await encryptKeyExport(KEYS_JSON, 'correct horse', ROUNDS);
+
+    expect(file.startsWith('-----BEGIN MEGOLM SESSION DATA-----\n')).toBe(true);
+    expect(file.endsWith('-----END MEGOLM SESSION DATA-----\n')).toBe(true);
+    expect(await decryptKeyExport(file, 'correct horse')).toBe(KEYS_JSON);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const file = await encryptKeyExport(KEYS_JSON, 'correct horse', ROUNDS);
+
+    await expect(decryptKeyExport(file, 'wrong horse')).rejects.toThrow('Incorrect passphrase');
+  });
+
+  it('rejects a tampered MAC', async () => {
+    const file = await encryptKeyExport(KEYS_JSON, 'correct horse', ROUNDS);
+
+    await expect(decryptKeyExport(tamper(file, 1), 'correct horse')).rejects.toThrow('Incorrect passphrase');
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const file = await encryptKeyExport(KEYS_JSON, 'correct horse', ROUNDS);
+
+    await expect(decryptKeyExport(tamper(file, 33), 'correct horse')).rejects.toThrow('Incorrect passphrase');
+  });
+
+  it('rejects files that are not key exports', async () => {
+    await expect(decryptKeyExport('hello', 'correct horse')).rejects.toThrow('Not a key export file');
+  });
+});
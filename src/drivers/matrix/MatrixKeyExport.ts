@@ -0,0 +1,111 @@
+/**
+ * MatrixKeyExport - Passphrase-protected room key files
+ * Implements the megolm key export format shared by Matrix clients using WebCrypto
+ * https://spec.matrix.org/v1.11/client-server-api/#key-exports
+ */
+
+import { decodeBase64, encodeBase64 } from './MatrixBase64';
+
+const HEADER_LINE = '-----BEGIN MEGOLM SESSION DATA-----';
+const TRAILER_LINE = '-----END MEGOLM SESSION DATA-----';
+const FORMAT_VERSION = 1;
+const DEFAULT_ROUNDS = 500000;
+const LINE_LENGTH = 96;
+
+// version (1) + salt (16) + iv (16) + rounds (4), then ciphertext, then the HMAC (32)
+const HEADER_LENGTH = 37;
+const HMAC_LENGTH = 32;
+
+/**
+ * Derive the AES-CTR and HMAC-SHA-256 keys from the passphrase
+ */
+async function deriveKeys(passphrase: string, salt: Uint8Array, rounds: number): Promise<[CryptoKey, CryptoKey]> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations: rounds, hash: 'SHA-512' },
+    baseKey,
+    512
+  ));
+
+  return Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), { name: 'AES-CTR' }, false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']),
+  ]);
+}
+
+/**
+ * Encrypt a JSON key export (from exportRoomKeysAsJson) into the armoured file format
+ */
+export async function encryptKeyExport(keysJson: string, passphrase: string, rounds: number = DEFAULT_ROUNDS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(16));
+  // Clear bit 63 so the 64-bit counter can't wrap into the nonce half
+  iv[8] &= 0x7f;
+
+  const [aesKey, hmacKey] = await deriveKeys(passphrase, salt, rounds);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-CTR', counter: iv, length: 64 },
+    aesKey,
+    new TextEncoder().encode(keysJson)
+  ));
+
+  const body = new Uint8Array(HEADER_LENGTH + ciphertext.length + HMAC_LENGTH);
+  body[0] = FORMAT_VERSION;
+  body.set(salt, 1);
+  body.set(iv, 17);
+  new DataView(body.buffer).setUint32(33, rounds);
+  body.set(ciphertext, HEADER_LENGTH);
+
+  const signedLength = HEADER_LENGTH + ciphertext.length;
+  const hmac = await crypto.subtle.sign('HMAC', hmacKey, body.subarray(0, signedLength));
+  body.set(new Uint8Array(hmac), signedLength);
+
+  const encoded = encodeBase64(body, { padded: true });
+  const lines = [HEADER_LINE];
+  for (let i = 0; i < encoded.length; i += LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + LINE_LENGTH));
+  }
+  lines.push(TRAILER_LINE);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Decrypt an armoured key file back to the JSON accepted by importRoomKeysAsJson
+ * Throws if the file is malformed or the passphrase is wrong
+ */
+export async function decryptKeyExport(file: string, passphrase: string): Promise<string> {
+  const lines = file.trim().split(/\r?\n/).map(line => line.trim());
+  const start = lines.indexOf(HEADER_LINE);
+  const end = lines.indexOf(TRAILER_LINE);
+  if (start === -1 || end <= start) {
+    throw new Error('Not a key export file');
+  }
+
+  let body: Uint8Array;
+  try {
+    body = decodeBase64(lines.slice(start + 1, end).join(''));
+  } catch {
+    throw new Error('Not a key export file');
+  }
+  if (body.length < HEADER_LENGTH + HMAC_LENGTH || body[0] !== FORMAT_VERSION) {
+    throw new Error('Unsupported key export file');
+  }
+
+  const salt = body.subarray(1, 17);
+  const iv = body.subarray(17, 33);
+  const rounds = new DataView(body.buffer, body.byteOffset).getUint32(33);
+  const signedLength = body.length - HMAC_LENGTH;
+
+  const [aesKey, hmacKey] = await deriveKeys(passphrase, salt, rounds);
+  const isAuthentic = await crypto.subtle.verify('HMAC', hmacKey, body.subarray(signedLength), body.subarray(0, signedLength));
+  if (!isAuthentic) {
+    throw new Error('Incorrect passphrase');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-CTR', counter: iv, length: 64 },
+    aesKey,
+    body.subarray(HEADER_LENGTH, signedLength)
+  );
+  return new TextDecoder().decode(plaintext);
+}
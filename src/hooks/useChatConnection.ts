@@ -0,0 +1,21 @@
+/**
+ * Hook tracking the chat connection state, for reconnect banners and status indicators
+ */
+
+import { useState, useEffect } from 'react';
+import type { ChatConnectionState, ChatPort } from '@/kernel/ports/chat';
+
+export function useChatConnection(chatPort: ChatPort | null): ChatConnectionState {
+  const [state, setState] = useState<ChatConnectionState>(
+    () => chatPort?.getConnectionState() ?? { status: 'disconnected', attempt: 0 }
+  );
+
+  useEffect(() => {
+    if (!chatPort) return;
+
+    setState(chatPort.getConnectionState());
+    return chatPort.onConnectionChange(setState);
+  }, [chatPort]);
+
+  return state;
+}
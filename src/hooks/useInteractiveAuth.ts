@@ -0,0 +1,30 @@
+/**
+ * Hook bridging user-interactive auth prompts to React state
+ * Pass `prompt` to an operation that may need authentication, render `stage` while it is
+ * set and answer it with `respond`
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { InteractiveAuthPrompt, InteractiveAuthStage } from '@/services/matrix';
+
+export function useInteractiveAuth() {
+  const [stage, setStage] = useState<InteractiveAuthStage | null>(null);
+  const resolverRef = useRef<((value: string | true | null) => void) | null>(null);
+
+  const prompt = useCallback<InteractiveAuthPrompt>((next) => new Promise((resolve) => {
+    resolverRef.current = resolve;
+    setStage(next);
+  }), []);
+
+  const respond = useCallback((value: string | true | null) => {
+    const resolve = resolverRef.current;
+    resolverRef.current = null;
+    setStage(null);
+    resolve?.(value);
+  }, []);
+
+  // Cancel a pending prompt when the owner goes away
+  useEffect(() => () => resolverRef.current?.(null), []);
+
+  return { stage, prompt, respond };
+}
@@ -0,0 +1,43 @@
+/**
+ * Hook answering room invites, and the one-line description shown for an invite
+ * The room itself moves out of the invite list once the membership change syncs
+ */
+
+import { useState, useCallback } from 'react';
+import type { ChatPort, ChatRoom } from '@/kernel/ports/chat';
+
+export function describeInvite(room: ChatRoom): string {
+  const inviter = room.invite?.inviter.displayName || room.invite?.inviter.id || 'Someone';
+  return room.invite?.isDirect ? `${inviter} wants to chat with you` : `${inviter} invited you to ${room.name}`;
+}
+
+export function useInviteActions(chatPort: ChatPort | null) {
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const respond = useCallback(async (room: ChatRoom, accept: boolean): Promise<boolean> => {
+    if (!chatPort) return false;
+
+    setError(null);
+    setPendingIds(prev => new Set(prev).add(room.id));
+    try {
+      await (accept ? chatPort.acceptInvite(room.id) : chatPort.declineInvite(room.id));
+      return true;
+    } catch (err) {
+      console.error(`[useInviteActions] Failed to ${accept ? 'accept' : 'decline'} invite:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${accept ? 'accept' : 'decline'} invite`);
+      return false;
+    } finally {
+      setPendingIds(prev => {
+        const next = new Set(prev);
+        next.delete(room.id);
+        return next;
+      });
+    }
+  }, [chatPort]);
+
+  const accept = useCallback((room: ChatRoom) => respond(room, true), [respond]);
+  const decline = useCallback((room: ChatRoom) => respond(room, false), [respond]);
+
+  return { pendingIds, error, accept, decline };
+}
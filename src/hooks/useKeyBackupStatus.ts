@@ -0,0 +1,20 @@
+/**
+ * Hook tracking whether encryption keys are backed up and recoverable
+ */
+
+import { useState, useEffect } from 'react';
+import type { MatrixKeyBackupStatus } from '@/drivers/matrix/MatrixDriver';
+import { matrixKeyBackupService } from '@/services/matrix';
+
+export function useKeyBackupStatus(): MatrixKeyBackupStatus | null {
+  const [status, setStatus] = useState<MatrixKeyBackupStatus | null>(
+    () => matrixKeyBackupService.getStatus()
+  );
+
+  useEffect(() => {
+    setStatus(matrixKeyBackupService.getStatus());
+    return matrixKeyBackupService.onChange(setStatus);
+  }, []);
+
+  return status;
+}
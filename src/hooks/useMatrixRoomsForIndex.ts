@@ -1,6 +1,6 @@
 /**
  * Hook to fetch and organize Matrix rooms for the IndexPanel
- * Categorizes rooms into direct messages, groups, and channels
+ * Categorizes rooms into direct messages, groups, channels and spaces, and collects pending invites
  */
 
 import { useState, useEffect } from 'react';
@@ -11,8 +11,12 @@ export interface OrganizedRooms {
   directMessages: ChatRoom[];
   groups: ChatRoom[];
   channels: ChatRoom[];
-  all: ChatRoom[];
+  spaces: ChatRoom[];
+  invites: ChatRoom[]; // Rooms we're invited to, newest invite first
+  all: ChatRoom[]; // Every joined conversation - spaces and invites are listed separately
   recentChats: ChatRoom[];
+  totalUnread: number; // Sum of unread counts across joined rooms
+  totalHighlights: number; // Sum of mentions across joined rooms
   loading: boolean;
   error: string | null;
 }
@@ -48,7 +52,11 @@ export function useMatrixRoomsForIndex(): OrganizedRooms {
         const fetchedRooms = await chatPort.getRooms();
         
         if (mounted) {
-          setRooms(fetchedRooms);
+          // Keep rooms that arrived through onRoomUpdate while fetching; their copy is newer
+          setRooms(prevRooms => {
+            const updatedIds = new Set(prevRooms.map(room => room.id));
+            return [...prevRooms, ...fetchedRooms.filter(room => !updatedIds.has(room.id))];
+          });
           setLoading(false);
         }
       } catch (err) {
@@ -67,6 +75,11 @@ export function useMatrixRoomsForIndex(): OrganizedRooms {
     if (chatPort) {
       unsubscribe = chatPort.onRoomUpdate((updatedRoom) => {
         setRooms(prevRooms => {
+          // Left, declined or banned - the room no longer belongs in the index
+          if (!updatedRoom.isJoined && !updatedRoom.invite) {
+            return prevRooms.filter(r => r.id !== updatedRoom.id);
+          }
+
           const index = prevRooms.findIndex(r => r.id === updatedRoom.id);
           if (index >= 0) {
             const newRooms = [...prevRooms];
@@ -91,8 +104,12 @@ export function useMatrixRoomsForIndex(): OrganizedRooms {
     directMessages: [],
     groups: [],
     channels: [],
-    all: rooms,
+    spaces: [],
+    invites: [],
+    all: rooms.filter(room => room.isJoined && room.type !== 'space'),
     recentChats: [],
+    totalUnread: 0,
+    totalHighlights: 0,
     loading,
     error
   };
@@ -101,17 +118,28 @@ export function useMatrixRoomsForIndex(): OrganizedRooms {
   if (rooms.length > 0) {
     // Categorize rooms
     rooms.forEach(room => {
+      if (room.invite) {
+        organizedRooms.invites.push(room);
+        return;
+      }
+
       // Skip rooms we're not joined to
       if (!room.isJoined) return;
 
+      // Spaces have no messages of their own
+      if (room.type === 'space') {
+        organizedRooms.spaces.push(room);
+        return;
+      }
+
+      organizedRooms.totalUnread += room.unreadCount;
+      organizedRooms.totalHighlights += room.highlightCount;
+
       if (room.type === 'direct') {
         organizedRooms.directMessages.push(room);
-      } else if (room.type === 'channel' || room.name.startsWith('#')) {
+      } else if (room.type === 'channel') {
         organizedRooms.channels.push(room);
-      } else if (room.type === 'group') {
-        organizedRooms.groups.push(room);
       } else {
-        // Default to group for unknown types
         organizedRooms.groups.push(room);
       }
     });
@@ -126,9 +154,11 @@ export function useMatrixRoomsForIndex(): OrganizedRooms {
     organizedRooms.directMessages.sort(sortByActivity);
     organizedRooms.groups.sort(sortByActivity);
     organizedRooms.channels.sort(sortByActivity);
+    organizedRooms.spaces.sort((a, b) => a.name.localeCompare(b.name));
+    organizedRooms.invites.sort((a, b) => (b.invite?.timestamp ?? 0) - (a.invite?.timestamp ?? 0));
 
     // Get top 10 most recent chats across all categories
-    organizedRooms.recentChats = [...rooms]
+    organizedRooms.recentChats = organizedRooms.all
       .filter(room => room.isJoined)
       .sort(sortByActivity)
       .slice(0, 10);
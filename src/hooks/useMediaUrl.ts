@@ -0,0 +1,35 @@
+/**
+ * Hook to resolve a media URL (mxc:// or plain) for display
+ * Returns undefined while loading or when the media can't be fetched
+ */
+
+import { useState, useEffect } from 'react';
+import { matrixMediaResolver, isMxcUrl, type MediaResolveOptions } from '@/services/matrix';
+
+export function useMediaUrl(url: string | undefined, options: MediaResolveOptions = {}): string | undefined {
+  const { width, height, method, encryption, mimetype } = options;
+  const [resolvedUrl, setResolvedUrl] = useState<string | undefined>(
+    url && !isMxcUrl(url) ? url : undefined
+  );
+
+  useEffect(() => {
+    if (!url) {
+      setResolvedUrl(undefined);
+      return;
+    }
+
+    let mounted = true;
+
+    matrixMediaResolver.resolve(url, { width, height, method, encryption, mimetype }).then((resolved) => {
+      if (mounted) {
+        setResolvedUrl(resolved ?? undefined);
+      }
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [url, width, height, method, encryption, mimetype]);
+
+  return resolvedUrl;
+}
@@ -0,0 +1,225 @@
+/**
+ * Hook driving @user and #room autocomplete for a chat composer
+ * Tracks the trigger under the caret, offers members or rooms, and remembers
+ * where each pick sits in the text so the message can be sent with proper mentions
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ChatMention, ChatPort, ChatRoom, ChatUser } from '@/kernel/ports/chat';
+
+const MAX_SUGGESTIONS = 8;
+
+// A trigger character at the start or after whitespace, followed by the query up to the caret
+const TRIGGER_PATTERN = /(^|\s)([@#])([^\s@#]*)$/;
+
+export interface MentionSuggestion {
+  type: 'user' | 'room';
+  id: string;
+  label: string; // Shown in the list
+  detail: string; // Secondary line - user ID or room alias
+  text: string; // Inserted into the composer
+  avatarUrl?: string;
+}
+
+interface ActiveTrigger {
+  type: 'user' | 'room';
+  query: string;
+  start: number; // Index of the trigger character
+  end: number; // Caret position
+}
+
+const getLocalpart = (id: string) => id.split(':')[0].substring(1);
+
+const isAt = (value: string, mention: ChatMention) =>
+  value.slice(mention.start, mention.start + mention.text.length) === mention.text;
+
+/**
+ * Move mentions along with an edit of the composer text
+ * The edit is the span between the common prefix and suffix; mentions it touches are dropped
+ */
+function shiftMentions(mentions: ChatMention[], previous: string, value: string): ChatMention[] {
+  let prefix = 0;
+  while (prefix < previous.length && prefix < value.length && previous[prefix] === value[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < value.length - prefix &&
+    previous[previous.length - 1 - suffix] === value[value.length - 1 - suffix]
+  ) suffix++;
+
+  const editEnd = previous.length - suffix;
+  const delta = value.length - previous.length;
+
+  return mentions
+    .map(mention => {
+      if (mention.start + mention.text.length <= prefix) return mention;
+      if (mention.start >= editEnd) return { ...mention, start: mention.start + delta };
+      return null;
+    })
+    .filter((mention): mention is ChatMention => !!mention && isAt(value, mention));
+}
+
+export function useMentionAutocomplete(chatPort: ChatPort | null, roomId: string | undefined) {
+  const [members, setMembers] = useState<ChatUser[]>([]);
+  const [rooms, setRooms] = useState<ChatRoom[]>([]);
+  const [trigger, setTrigger] = useState<ActiveTrigger | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [mentions, setMentions] = useState<ChatMention[]>([]);
+  const valueRef = useRef(''); // Composer text the mention offsets refer to
+
+  // Candidates are loaded per room; the list is small enough to filter client-side
+  useEffect(() => {
+    if (!chatPort || !roomId) return;
+
+    let mounted = true;
+    setMentions([]);
+    valueRef.current = '';
+    setTrigger(null);
+
+    Promise.all([chatPort.getRoomMembers(roomId), chatPort.getRooms()])
+      .then(([roomMembers, allRooms]) => {
+        if (mounted) {
+          setMembers(roomMembers);
+          setRooms(allRooms.filter(room => room.isJoined));
+        }
+      })
+      .catch(err => console.error('[useMentionAutocomplete] Failed to load candidates:', err));
+
+    return () => {
+      mounted = false;
+    };
+  }, [chatPort, roomId]);
+
+  const query = trigger?.query.toLowerCase() || '';
+  const suggestions: MentionSuggestion[] = !trigger ? [] : trigger.type === 'user'
+    ? members
+      .filter(member =>
+        member.id.toLowerCase().includes(query) ||
+        (member.displayName || '').toLowerCase().includes(query)
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map(member => ({
+        type: 'user' as const,
+        id: member.id,
+        label: member.displayName || getLocalpart(member.id),
+        detail: member.id,
+        text: `@${member.displayName || getLocalpart(member.id)}`,
+        avatarUrl: member.avatarUrl,
+      }))
+    : rooms
+      .filter(room =>
+        room.name.toLowerCase().includes(query) ||
+        (room.alias || '').toLowerCase().includes(query)
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map(room => ({
+        type: 'room' as const,
+        id: room.alias || room.id,
+        label: room.name,
+        detail: room.alias || room.id,
+        text: room.alias ? `#${getLocalpart(room.alias)}` : `#${room.name.replace(/^#/, '')}`,
+      }));
+
+  /**
+   * Re-evaluate the trigger after the composer text or caret changed
+   */
+  const updateTrigger = useCallback((value: string, caret: number) => {
+    const match = value.slice(0, caret).match(TRIGGER_PATTERN);
+    if (!match) {
+      setTrigger(null);
+      return;
+    }
+
+    setTrigger({
+      type: match[2] === '@' ? 'user' : 'room',
+      query: match[3],
+      start: caret - match[3].length - 1,
+      end: caret,
+    });
+    setActiveIndex(0);
+  }, []);
+
+  /**
+   * Replace the trigger text with the suggestion
+   * Returns the new composer value and caret position
+   */
+  const applySuggestion = (value: string, suggestion: MentionSuggestion): { value: string; caret: number } | null => {
+    if (!trigger) return null;
+
+    const inserted = `${suggestion.text} `;
+    const nextValue = value.slice(0, trigger.start) + inserted + value.slice(trigger.end);
+    const mention: ChatMention = { type: suggestion.type, id: suggestion.id, text: suggestion.text, start: trigger.start };
+    setMentions(prev => [...shiftMentions(prev, value, nextValue), mention]);
+    valueRef.current = nextValue;
+    setTrigger(null);
+
+    return {
+      value: nextValue,
+      caret: trigger.start + inserted.length,
+    };
+  };
+
+  const moveSelection = (delta: number) => {
+    if (suggestions.length === 0) return;
+    setActiveIndex(index => (index + delta + suggestions.length) % suggestions.length);
+  };
+
+  /**
+   * Remove a mention and its text (with the space after it)
+   * Returns the new composer value
+   */
+  const removeMention = (value: string, mention: ChatMention): string => {
+    const end = mention.start + mention.text.length;
+    const nextValue = value.slice(0, mention.start) + value.slice(value[end] === ' ' ? end + 1 : end);
+    setMentions(prev => shiftMentions(prev.filter(m => m !== mention), value, nextValue));
+    valueRef.current = nextValue;
+    return nextValue;
+  };
+
+  // Follow edits of the composer text; mentions whose text was changed are dropped
+  const pruneMentions = useCallback((value: string) => {
+    const previous = valueRef.current;
+    valueRef.current = value;
+    if (previous === value) return;
+
+    setMentions(prev => prev.length === 0 ? prev : shiftMentions(prev, previous, value));
+  }, []);
+
+  // Start from an existing message's mentions, e.g. when editing it
+  const seedMentions = useCallback((value: string, seeded: ChatMention[]) => {
+    valueRef.current = value;
+    setMentions(seeded.filter(mention => isAt(value, mention)));
+    setTrigger(null);
+  }, []);
+
+  /**
+   * Mentions for the message sent from the composer text, which is trimmed before sending
+   */
+  const getMessageMentions = (value: string): ChatMention[] => {
+    const offset = value.length - value.trimStart().length;
+    return mentions.map(mention => ({ ...mention, start: mention.start - offset }));
+  };
+
+  const reset = useCallback(() => {
+    setMentions([]);
+    valueRef.current = '';
+    setTrigger(null);
+  }, []);
+
+  return {
+    isOpen: suggestions.length > 0,
+    suggestions,
+    activeIndex: Math.min(activeIndex, Math.max(suggestions.length - 1, 0)),
+    mentions,
+    updateTrigger,
+    applySuggestion,
+    moveSelection,
+    removeMention,
+    pruneMentions,
+    seedMentions,
+    getMessageMentions,
+    close: () => setTrigger(null),
+    reset,
+  };
+}
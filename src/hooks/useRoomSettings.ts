@@ -0,0 +1,45 @@
+/**
+ * Hook loading a room's settings and member list
+ * Reloads when the room's state changes, here or on another client
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatPort, ChatRoomMember, ChatRoomSettings } from '@/kernel/ports/chat';
+
+export function useRoomSettings(chatPort: ChatPort | null, roomId: string) {
+  const [settings, setSettings] = useState<ChatRoomSettings | null>(null);
+  const [members, setMembers] = useState<ChatRoomMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!chatPort) return;
+
+    try {
+      const [nextSettings, nextMembers] = await Promise.all([
+        chatPort.getRoomSettings(roomId),
+        chatPort.getMemberships(roomId),
+      ]);
+      setSettings(nextSettings);
+      setMembers(nextMembers);
+      setError(null);
+    } catch (err) {
+      console.error('[useRoomSettings] Failed to load room settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load room settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chatPort, roomId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    reload();
+
+    if (!chatPort) return;
+    return chatPort.onRoomUpdate((room) => {
+      if (room.id === roomId) reload();
+    });
+  }, [chatPort, roomId, reload]);
+
+  return { settings, members, isLoading, error, reload };
+}
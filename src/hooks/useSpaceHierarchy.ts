@@ -0,0 +1,83 @@
+/**
+ * Hook loading the rooms inside a space, a page at a time
+ * Tracks joins so rooms move from "joinable" to joined without a reload
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatPort, ChatSpaceRoom } from '@/kernel/ports/chat';
+
+export function useSpaceHierarchy(chatPort: ChatPort | null, spaceId: string | null) {
+  const [rooms, setRooms] = useState<ChatSpaceRoom[]>([]);
+  const [nextToken, setNextToken] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [joiningIds, setJoiningIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRooms([]);
+    setNextToken(undefined);
+    setHasMore(false);
+    setError(null);
+    if (!chatPort || !spaceId) return;
+
+    let mounted = true;
+    setIsLoading(true);
+    chatPort.getSpaceHierarchy(spaceId)
+      .then((page) => {
+        if (!mounted) return;
+        setRooms(page.rooms);
+        setNextToken(page.nextToken);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => {
+        console.error('[useSpaceHierarchy] Failed to load space:', err);
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load space');
+      })
+      .finally(() => {
+        if (mounted) setIsLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [chatPort, spaceId]);
+
+  const loadMore = useCallback(async () => {
+    if (!chatPort || !spaceId || !hasMore || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const page = await chatPort.getSpaceHierarchy(spaceId, nextToken);
+      setRooms(prev => [...prev, ...page.rooms.filter(room => !prev.some(existing => existing.id === room.id))]);
+      setNextToken(page.nextToken);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('[useSpaceHierarchy] Failed to load more rooms:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load more rooms');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chatPort, spaceId, nextToken, hasMore, isLoading]);
+
+  const join = useCallback(async (room: ChatSpaceRoom) => {
+    if (!chatPort) return;
+
+    setJoiningIds(prev => new Set(prev).add(room.id));
+    try {
+      await chatPort.joinRoom(room.id, room.via);
+      setRooms(prev => prev.map(existing => existing.id === room.id ? { ...existing, isJoined: true } : existing));
+    } catch (err) {
+      console.error('[useSpaceHierarchy] Failed to join room:', err);
+      setError(err instanceof Error ? err.message : 'Failed to join room');
+    } finally {
+      setJoiningIds(prev => {
+        const next = new Set(prev);
+        next.delete(room.id);
+        return next;
+      });
+    }
+  }, [chatPort]);
+
+  return { rooms, hasMore, isLoading, joiningIds, error, loadMore, join };
+}
@@ -0,0 +1,52 @@
+/**
+ * Hook searching the homeserver user directory as the query changes
+ * Requests are debounced and stale responses are dropped
+ */
+
+import { useState, useEffect } from 'react';
+import type { ChatPort, ChatUser } from '@/kernel/ports/chat';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// A full Matrix user ID, which can be messaged even if the directory doesn't list it
+const USER_ID_PATTERN = /^@[^\s:]+:\S+$/;
+
+export function useUserDirectorySearch(chatPort: ChatPort | null, query: string) {
+  const [results, setResults] = useState<ChatUser[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (!chatPort || !term) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsSearching(true);
+
+    const timer = setTimeout(() => {
+      chatPort.searchUsers(term)
+        .then((users) => {
+          if (!isCurrent) return;
+          const isListed = users.some(user => user.id === term);
+          setResults(USER_ID_PATTERN.test(term) && !isListed ? [{ id: term }, ...users] : users);
+        })
+        .catch((err) => {
+          console.error('[useUserDirectorySearch] Search failed:', err);
+          if (isCurrent) setResults([]);
+        })
+        .finally(() => {
+          if (isCurrent) setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [chatPort, query]);
+
+  return { results, isSearching };
+}
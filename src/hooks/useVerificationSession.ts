@@ -0,0 +1,19 @@
+/**
+ * Hook tracking the device or user verification currently in progress
+ */
+
+import { useState, useEffect } from 'react';
+import { matrixVerificationService, type VerificationSession } from '@/services/matrix';
+
+export function useVerificationSession(): VerificationSession | null {
+  const [session, setSession] = useState<VerificationSession | null>(
+    () => matrixVerificationService.getSession()
+  );
+
+  useEffect(() => {
+    setSession(matrixVerificationService.getSession());
+    return matrixVerificationService.onChange(setSession);
+  }, []);
+
+  return session;
+}
@@ -24,6 +24,12 @@ export const authConfig = {
   
   // Matrix Configuration
   matrixHomeserverUrl: 'https://zos-home-2-e24b9412096f.herokuapp.com',
+  // 'auto' uses sliding sync when the homeserver supports it; 'sliding' or 'classic' force a mode
+  matrixSyncMode: (import.meta.env.VITE_MATRIX_SYNC_MODE || 'auto') as 'auto' | 'sliding' | 'classic',
+  // Rooms kept in the sliding sync room list, most recent first
+  matrixRoomListWindow: Number(import.meta.env.VITE_MATRIX_ROOM_LIST_WINDOW) || 20,
+  // Sliding sync proxy for homeservers without native support; unset uses the homeserver
+  matrixSlidingSyncProxyUrl: (import.meta.env.VITE_MATRIX_SLIDING_SYNC_PROXY_URL || undefined) as string | undefined,
   
   // Endpoints
   endpoints: {
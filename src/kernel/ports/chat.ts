@@ -7,21 +7,204 @@ export interface ChatMessage {
   id: string;
   roomId: string;
   sender: string;
-  content: string;
+  content: string; // Plain text body, also the fallback for formattedContent
+  formattedContent?: string; // Sanitized HTML, safe to render as-is
   timestamp: number;
-  type?: 'text' | 'image' | 'file';
+  type?: 'text' | 'image' | 'file' | 'video' | 'audio';
+  media?: ChatMedia; // Attachment for non-text messages; content holds the caption or file name
+  reactions?: ChatReaction[];
+  isEdited?: boolean;
+  isRedacted?: boolean; // Tombstone for a deleted message
+  inReplyTo?: ChatMessageReference;
+  threadId?: string; // Root message ID when this message is a thread reply
+  threadSummary?: ChatThreadSummary; // Present on thread roots
+  mentionsMe?: boolean; // The message mentions or otherwise highlights the current user
+  mentions?: ChatMention[]; // Pills linked in formattedContent, located in content
+  sendStatus?: ChatSendStatus; // Local echo state of our own messages; unset once the server echoes it back
+  decryptionFailure?: ChatDecryptionFailure; // Set while an encrypted message can't be read; content holds a fallback
 }
 
+export type ChatSendStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Why an encrypted message can't be read, which decides what the user can do about it
+ */
+export type ChatDecryptionFailure =
+  | 'missing-keys' // The key hasn't reached this device (yet) - asking again may help
+  | 'withheld' // The sender chose not to share the key with us
+  | 'unverified-device' // The sender only shares keys with verified devices
+  | 'backup-available'; // The key is in the key backup, which this device can't unlock yet
+
+export interface ChatMedia {
+  url: string; // mxc:// URL - resolve with the media resolver before display
+  filename: string;
+  mimetype?: string;
+  size?: number; // Bytes
+  width?: number;
+  height?: number;
+  duration?: number; // Milliseconds, for audio and video
+  thumbnailUrl?: string; // mxc:// URL of a sender-provided thumbnail
+  encryption?: ChatMediaEncryption; // Set when the file was uploaded encrypted
+}
+
+export interface ChatMediaEncryption {
+  key: JsonWebKey;
+  iv: string;
+  sha256: string;
+}
+
+export interface ChatMessagePage {
+  messages: ChatMessage[]; // Oldest first
+  nextToken?: string; // Cursor for the next, older page
+  hasMore: boolean;
+}
+
+export interface ChatMessageReference {
+  messageId: string;
+  sender?: string; // Unset when the referenced message isn't loaded
+  content?: string;
+}
+
+export interface ChatThreadSummary {
+  replyCount: number;
+  latestReplyTimestamp?: number;
+}
+
+export interface SendMessageOptions {
+  inReplyTo?: string; // Message ID being quoted
+  threadId?: string; // Thread root to post into
+  mentions?: ChatMention[]; // Mentions inserted by the composer, located by their offset in the content
+  txnId?: string; // Client transaction ID - reuse it when retrying so the server deduplicates
+}
+
+export interface ChatMention {
+  type: 'user' | 'room';
+  id: string; // User ID, or room alias/ID
+  text: string; // Exactly as it appears in the message, e.g. "@Alice"
+  start: number; // Offset of text in the message content
+}
+
+export interface SendMediaOptions extends SendMessageOptions {
+  caption?: string; // Sent as the body; defaults to the file name
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+export interface ChatReaction {
+  key: string; // The annotation key, usually an emoji
+  count: number;
+  senders: string[];
+  includesMe: boolean;
+}
+
+/**
+ * How a room is presented
+ * Spaces group other rooms and have no conversation of their own
+ */
+export type ChatRoomType = 'direct' | 'group' | 'channel' | 'space';
+
 export interface ChatRoom {
   id: string;
   name: string;
-  type: 'direct' | 'group' | 'channel';
+  type: ChatRoomType;
   memberCount?: number;
   lastMessage?: ChatMessage;
   lastActiveTimestamp?: number;
   bumpStamp?: number; // Sliding sync recency index from getBumpStamp()
   isJoined: boolean;
+  invite?: ChatRoomInvite; // Set while the current user is invited and hasn't answered yet
   isEncrypted?: boolean;
+  alias?: string; // Canonical alias, e.g. #general:example.org
+  unreadCount: number; // Notifying messages since our read receipt, including threads
+  highlightCount: number; // Mentions and keyword hits among the unread messages
+  lastReadEventId?: string; // Event our read receipt points at
+}
+
+export interface ChatRoomInvite {
+  inviter: ChatUser;
+  timestamp?: number;
+  reason?: string;
+  isDirect: boolean; // The inviter wants a direct conversation
+}
+
+export interface CreateRoomOptions {
+  name: string;
+  topic?: string;
+  isEncrypted?: boolean; // End-to-end encrypt messages; can't be turned off later
+  visibility?: 'public' | 'private'; // Public rooms are listed in the server's room directory
+  preset?: 'private_chat' | 'trusted_private_chat' | 'public_chat'; // Join rules and history visibility
+  invite?: string[]; // User IDs to invite straight away
+}
+
+export type ChatJoinRule = 'public' | 'invite' | 'knock' | 'restricted'; // Restricted rooms admit members of given spaces
+export type ChatHistoryVisibility = 'world_readable' | 'shared' | 'invited' | 'joined';
+
+/**
+ * Power level needed for each action in a room
+ * Members have usersDefault unless listed in users
+ */
+export interface ChatPowerLevels {
+  users: Record<string, number>;
+  usersDefault: number;
+  sendMessages: number;
+  changeSettings: number; // Any room state without its own requirement
+  invite: number;
+  kick: number;
+  ban: number;
+  redact: number; // Deleting other people's messages
+}
+
+export interface ChatRoomPermissions {
+  canChangeName: boolean;
+  canChangeTopic: boolean;
+  canChangeAvatar: boolean;
+  canChangeJoinRule: boolean;
+  canChangeHistoryVisibility: boolean;
+  canEnableEncryption: boolean;
+  canChangePowerLevels: boolean;
+  canInvite: boolean;
+  canKick: boolean;
+  canBan: boolean;
+}
+
+export interface ChatRoomSettings {
+  roomId: string;
+  name: string;
+  topic?: string;
+  avatarUrl?: string; // mxc:// URL
+  joinRule: ChatJoinRule;
+  historyVisibility: ChatHistoryVisibility;
+  isEncrypted: boolean; // Can't be turned off once enabled
+  powerLevels: ChatPowerLevels;
+  myPowerLevel: number;
+  permissions: ChatRoomPermissions; // What the current user may change
+}
+
+export type ChatMembership = 'join' | 'invite' | 'knock' | 'ban';
+export type ChatMemberRole = 'admin' | 'moderator' | 'member'; // Power level 100, 50 and below
+
+export interface ChatRoomMember extends ChatUser {
+  membership: ChatMembership;
+  powerLevel: number;
+  role: ChatMemberRole;
+}
+
+export interface ChatSpaceRoom {
+  id: string;
+  name: string;
+  topic?: string;
+  alias?: string; // Canonical alias, e.g. #general:example.org
+  avatarUrl?: string; // mxc:// URL
+  memberCount: number;
+  isSpace: boolean; // A sub-space; its own rooms are listed alongside it
+  isJoined: boolean;
+  isSuggested: boolean; // The space recommends joining it
+  via: string[]; // Servers to join through when the room isn't known locally
+}
+
+export interface ChatSpaceHierarchyPage {
+  rooms: ChatSpaceRoom[]; // Everything below the space, breadth first; excludes the space itself
+  nextToken?: string; // Cursor for the next page
+  hasMore: boolean;
 }
 
 export interface ChatUser {
@@ -31,31 +214,105 @@ export interface ChatUser {
   presence?: 'online' | 'offline' | 'away';
 }
 
+export interface ChatTypingEvent {
+  roomId: string;
+  users: ChatUser[]; // Everyone currently typing, excluding the current user
+}
+
+export interface ChatReadReceipt {
+  user: ChatUser;
+  messageId: string; // Latest displayed message the user has read up to
+  timestamp?: number;
+}
+
+export interface ChatReceiptEvent {
+  roomId: string;
+  receipts: ChatReadReceipt[]; // Current read position of every other member
+}
+
+export type ChatConnectionStatus =
+  | 'disconnected'
+  | 'connecting'
+  | 'live'
+  | 'catching-up' // Back online, fetching what was missed
+  | 'reconnecting'
+  | 'offline' // The browser has no network
+  | 'auth-failed'; // The session was rejected - the user has to sign in again
+
+export interface ChatConnectionState {
+  status: ChatConnectionStatus;
+  attempt: number; // Reconnect attempts since the connection was last live
+  nextRetryAt?: number; // Epoch ms of the next scheduled reconnect attempt
+}
+
 export interface ChatPort {
   // Room operations
   getRooms(): Promise<ChatRoom[]>;
   getRoom(roomId: string): Promise<ChatRoom | null>;
-  joinRoom(roomId: string): Promise<void>;
+  joinRoom(roomId: string, via?: string[]): Promise<void>;
   leaveRoom(roomId: string): Promise<void>;
+  createRoom(options: CreateRoomOptions): Promise<string>; // Resolves with the new room's ID
+  createDirectMessage(userId: string): Promise<string>; // Reuses an existing DM with the user when there is one
+  invite(roomId: string, userId: string): Promise<void>;
+  acceptInvite(roomId: string): Promise<void>; // Joins, and lists direct invites among the DMs
+  declineInvite(roomId: string): Promise<void>;
+  getSpaceHierarchy(spaceId: string, fromToken?: string, limit?: number): Promise<ChatSpaceHierarchyPage>;
+
+  // Room settings and moderation
+  getRoomSettings(roomId: string): Promise<ChatRoomSettings>;
+  setRoomName(roomId: string, name: string): Promise<void>;
+  setRoomTopic(roomId: string, topic: string): Promise<void>;
+  setRoomAvatar(roomId: string, file: File | null): Promise<void>; // null removes the avatar
+  setJoinRule(roomId: string, joinRule: Exclude<ChatJoinRule, 'restricted'>): Promise<void>;
+  setHistoryVisibility(roomId: string, visibility: ChatHistoryVisibility): Promise<void>;
+  enableEncryption(roomId: string): Promise<void>;
+  setPowerLevelRequirements(roomId: string, levels: Partial<Omit<ChatPowerLevels, 'users'>>): Promise<void>;
+  setMemberPowerLevel(roomId: string, userId: string, powerLevel: number): Promise<void>;
+  getMemberships(roomId: string): Promise<ChatRoomMember[]>; // Joined, invited, knocking and banned members
+  kick(roomId: string, userId: string, reason?: string): Promise<void>;
+  ban(roomId: string, userId: string, reason?: string): Promise<void>;
+  unban(roomId: string, userId: string): Promise<void>;
   
   // Message operations
-  getMessages(roomId: string, limit?: number): Promise<ChatMessage[]>;
-  loadMoreMessages?(roomId: string, fromToken?: string, limit?: number): Promise<ChatMessage[]>;
-  sendMessage(roomId: string, content: string): Promise<ChatMessage>;
+  getMessages(roomId: string, limit?: number): Promise<ChatMessagePage>;
+  loadMoreMessages(roomId: string, fromToken?: string, limit?: number): Promise<ChatMessagePage>;
+  sendMessage(roomId: string, content: string, options?: SendMessageOptions): Promise<ChatMessage>;
+  sendMedia(roomId: string, file: File, options?: SendMediaOptions): Promise<ChatMessage>;
+  editMessage(roomId: string, messageId: string, content: string, mentions?: ChatMention[]): Promise<void>;
+  deleteMessage(roomId: string, messageId: string, reason?: string): Promise<void>;
   focusRoom?(roomId: string, messageLimit?: number): Promise<void>;
+  getThreadMessages(roomId: string, threadId: string, limit?: number): Promise<ChatMessage[]>;
+  
+  // Encrypted messages that couldn't be read
+  retryDecryption(roomId: string, messageId: string): Promise<void>; // Look for the key again, including in the key backup
+  
+  // Reaction operations
+  addReaction(roomId: string, messageId: string, key: string): Promise<void>;
+  removeReaction(roomId: string, messageId: string, key: string): Promise<void>;
   
   // User operations
   getCurrentUser(): Promise<ChatUser | null>;
   getRoomMembers(roomId: string): Promise<ChatUser[]>;
+  searchUsers(query: string, limit?: number): Promise<ChatUser[]>; // Server user directory
+  
+  // Presence in a room
+  sendTyping(roomId: string, isTyping: boolean): Promise<void>;
+  sendReadReceipt(roomId: string, messageId: string): Promise<void>;
+  getReadReceipts(roomId: string): Promise<ChatReadReceipt[]>;
   
   // Connection state
   isConnected(): boolean;
+  getConnectionState(): ChatConnectionState;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
+  reconnectNow(): void; // Skip the remaining backoff and retry straight away
   waitForSync?(timeoutMs?: number): Promise<void>;
   
   // Event handling
   onMessage(callback: (message: ChatMessage) => void): () => void;
+  onMessageUpdate(callback: (message: ChatMessage) => void): () => void;
   onRoomUpdate(callback: (room: ChatRoom) => void): () => void;
-  onConnectionChange(callback: (connected: boolean) => void): () => void;
+  onTyping(callback: (event: ChatTypingEvent) => void): () => void;
+  onReceipt(callback: (event: ChatReceiptEvent) => void): () => void;
+  onConnectionChange(callback: (state: ChatConnectionState) => void): () => void;
 }
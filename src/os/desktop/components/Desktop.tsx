@@ -4,7 +4,10 @@ import { ScrollArea } from '@/ui/scroll-area';
 import { Sidebar } from './Sidebar';
 import { Topbar } from './TopBar';
 import { IndexPanel } from './IndexPanel';
+import { InviteNotification } from './InviteNotification';
 import { MatrixDevPanel } from '@/apps/chat/matrix/MatrixDevPanel';
+import { VerificationDialog } from '@/os/settings/components/security/VerificationDialog';
+import { useMatrixRoomsForIndex } from '@/hooks/useMatrixRoomsForIndex';
 
 import { useBackgroundClass } from '@/os/theme/useBackgroundClass';
 
@@ -22,6 +25,9 @@ export const Desktop: React.FC<DesktopProps> = ({
   const [selectedApp, setSelectedApp] = useState<string | null>('chat');
   const backgroundClass = useBackgroundClass();
 
+  // Shared by the sidebar badge and the index panel so rooms are only fetched once
+  const matrixRooms = useMatrixRoomsForIndex();
+
   const handleSidebarClick = (appId: string) => {
     setSelectedApp(appId);
     // Don't open app window on sidebar click anymore
@@ -44,10 +50,15 @@ export const Desktop: React.FC<DesktopProps> = ({
   return (
     <Card className={`min-h-screen relative overflow-hidden border-0 rounded-none ${backgroundClass} ${className}`}>
       {/* Sidebar */}
-      <Sidebar onOpenApp={handleSidebarClick} selectedApp={selectedApp} />
+      <Sidebar
+        onOpenApp={handleSidebarClick}
+        selectedApp={selectedApp}
+        chatUnreadCount={matrixRooms.totalUnread + matrixRooms.invites.length}
+        chatHighlightCount={matrixRooms.totalHighlights}
+      />
 
       {/* Index Panel */}
-      <IndexPanel selectedApp={selectedApp} onItemClick={handleItemClick} />
+      <IndexPanel selectedApp={selectedApp} onItemClick={handleItemClick} matrixRooms={matrixRooms} />
 
       {/* Top Bar */}
       <Topbar />
@@ -62,6 +73,16 @@ export const Desktop: React.FC<DesktopProps> = ({
 
       {/* Matrix Development Panel - Floating */}
       <MatrixDevPanel />
+
+      {/* Device and user verification - Floating */}
+      <VerificationDialog />
+
+      {/* Invites that arrive while the app is open - Floating */}
+      <InviteNotification
+        invites={matrixRooms.invites}
+        isLoading={matrixRooms.loading}
+        onOpenRoom={(roomId) => handleItemClick('chat', roomId)}
+      />
     </Card>
   );
 };
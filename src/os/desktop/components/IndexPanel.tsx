@@ -8,15 +8,21 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/ui/accordion';
-import { Search, ChevronLeft, Loader2 } from 'lucide-react';
+import { Search, ChevronLeft, Loader2, SquarePen } from 'lucide-react';
 import { SuperButton } from '@/ui/super-button';
-import { useMatrixRoomsForIndex } from '@/hooks/useMatrixRoomsForIndex';
+import type { OrganizedRooms } from '@/hooks/useMatrixRoomsForIndex';
 import type { ChatRoom } from '@/kernel/ports/chat';
+import { NewConversation } from './NewConversation';
+import { SpaceSwitcher, JoinableSpaceRooms } from './SpaceBrowser';
+import { InviteList } from './InviteList';
+import { useChatPort } from '@/kernel/providers/ServicesProvider';
+import { useSpaceHierarchy } from '@/hooks/useSpaceHierarchy';
 
 interface IndexPanelProps {
   className?: string;
   selectedApp: string | null;
   onItemClick?: (appId: string, itemName: string) => void;
+  matrixRooms: OrganizedRooms;
 }
 
 interface AppContent {
@@ -206,16 +212,27 @@ const appContent: AppContent = {
 export const IndexPanel: React.FC<IndexPanelProps> = ({
   className = '',
   selectedApp,
-  onItemClick
+  onItemClick,
+  matrixRooms
 }) => {
   const content = selectedApp ? appContent[selectedApp] : null;
   const [openSections, setOpenSections] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
-  
-  // Get real Matrix rooms data
-  const matrixRooms = useMatrixRoomsForIndex();
+  const [isStartingConversation, setIsStartingConversation] = useState(false);
+  const [selectedSpaceId, setSelectedSpaceId] = useState<string | null>(null);
+  const chatPort = useChatPort();
+  const spaceHierarchy = useSpaceHierarchy(chatPort, selectedApp === 'chat' ? selectedSpaceId : null);
+  const spaceRoomIds = new Set(spaceHierarchy.rooms.map(room => room.id));
+  const joinableSpaceRooms = spaceHierarchy.rooms.filter(room => !room.isJoined && !room.isSpace);
+
+  // Forget a space we've left
+  useEffect(() => {
+    if (selectedSpaceId && !matrixRooms.loading && !matrixRooms.spaces.some(space => space.id === selectedSpaceId)) {
+      setSelectedSpaceId(null);
+    }
+  }, [selectedSpaceId, matrixRooms.loading, matrixRooms.spaces]);
 
   // When selectedApp changes, set default tab and open first section
   useEffect(() => {
@@ -252,10 +269,11 @@ export const IndexPanel: React.FC<IndexPanelProps> = ({
     );
   };
   
-  // Filter rooms based on search query
+  // Filter rooms based on the selected space and search query
   const filterRooms = (rooms: ChatRoom[]) => {
-    if (!searchQuery.trim()) return rooms;
-    return rooms.filter(room => 
+    const inSpace = selectedSpaceId ? rooms.filter(room => spaceRoomIds.has(room.id)) : rooms;
+    if (!searchQuery.trim()) return inSpace;
+    return inSpace.filter(room => 
       room.name.toLowerCase().includes(searchQuery.toLowerCase())
     );
   };
@@ -278,6 +296,23 @@ export const IndexPanel: React.FC<IndexPanelProps> = ({
     }).filter(section => section.items.length > 0);
   };
   
+  // Unread badge for a chat room item, highlighted when it contains mentions
+  const renderRoomBadge = (roomId?: string) => {
+    if (!roomId) return null;
+    const room = matrixRooms.all.find(r => r.id === roomId);
+    if (!room || room.unreadCount === 0) return null;
+
+    return (
+      <span
+        className={`ml-2 flex-shrink-0 min-w-4 h-4 px-1 rounded-full text-[10px] leading-4 text-center font-medium ${
+          room.highlightCount > 0 ? 'bg-destructive text-destructive-foreground' : 'bg-primary text-primary-foreground'
+        }`}
+      >
+        {room.unreadCount > 99 ? '99+' : room.unreadCount}
+      </span>
+    );
+  };
+
   // Get chat content with real Matrix data
   const getChatContent = () => {
     if (selectedApp !== 'chat' || !matrixRooms) return content;
@@ -355,19 +390,47 @@ export const IndexPanel: React.FC<IndexPanelProps> = ({
         }}>
           {/* Search Input */}
           <div className="px-4 pt-12 pb-0">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10 h-8 bg-muted/50 text-foreground text-sm placeholder:text-muted-foreground focus:border-ring"
-              />
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10 h-8 bg-muted/50 text-foreground text-sm placeholder:text-muted-foreground focus:border-ring"
+                />
+              </div>
+              {selectedApp === 'chat' && (
+                <button
+                  type="button"
+                  onClick={() => setIsStartingConversation(true)}
+                  className="flex-shrink-0 text-muted-foreground hover:text-foreground transition-colors"
+                  aria-label="New conversation"
+                >
+                  <SquarePen className="h-4 w-4" />
+                </button>
+              )}
             </div>
           </div>
           
+          {selectedApp === 'chat' && !isStartingConversation && matrixRooms.spaces.length > 0 && (
+            <SpaceSwitcher
+              spaces={matrixRooms.spaces}
+              selectedSpaceId={selectedSpaceId}
+              onSelect={setSelectedSpaceId}
+            />
+          )}
+
           <div className="flex-1 overflow-y-auto">
         {/* Show loading state for chat app */}
-        {selectedApp === 'chat' && matrixRooms.loading ? (
+        {selectedApp === 'chat' && isStartingConversation ? (
+          <NewConversation
+            onBack={() => setIsStartingConversation(false)}
+            onOpenRoom={(roomId) => {
+              setIsStartingConversation(false);
+              onItemClick?.('chat', roomId);
+            }}
+          />
+        ) : selectedApp === 'chat' && matrixRooms.loading ? (
           <div className="flex items-center justify-center h-48">
             <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
           </div>
@@ -381,6 +444,13 @@ export const IndexPanel: React.FC<IndexPanelProps> = ({
           displayContent.tabs ? (
             // Render tabbed content
             <Tabs value={activeTab} onValueChange={handleTabChange} className="h-full flex flex-col">
+              {selectedApp === 'chat' && (
+                <InviteList
+                  invites={matrixRooms.invites}
+                  onOpenRoom={(roomId) => onItemClick?.('chat', roomId)}
+                />
+              )}
+
               <TabsList className="flex w-auto mx-4 mt-4 mb-2 h-8 gap-1 justify-start">
                 {displayContent.tabs.map((tab) => (
                   <TabsTrigger 
@@ -414,7 +484,7 @@ export const IndexPanel: React.FC<IndexPanelProps> = ({
                             {section.items.map((item, index) => (
                               <div 
                                 key={index}
-                                className="px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent/30 rounded cursor-pointer transition-colors"
+                                className="flex items-center justify-between px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent/30 rounded cursor-pointer transition-colors"
                                 onClick={() => {
                                   // For chat app, pass the room ID if available
                                   if (selectedApp === 'chat' && section.roomIds && section.roomIds[index]) {
@@ -424,7 +494,8 @@ export const IndexPanel: React.FC<IndexPanelProps> = ({
                                   }
                                 }}
                               >
-                                {item}
+                                <span className="truncate">{item}</span>
+                                {selectedApp === 'chat' && renderRoomBadge(section.roomIds?.[index])}
                               </div>
                             ))}
                           </div>
@@ -434,6 +505,18 @@ export const IndexPanel: React.FC<IndexPanelProps> = ({
                   </Accordion>
                 </TabsContent>
               ))}
+
+              {selectedApp === 'chat' && selectedSpaceId && (
+                <JoinableSpaceRooms
+                  rooms={joinableSpaceRooms}
+                  joiningIds={spaceHierarchy.joiningIds}
+                  hasMore={spaceHierarchy.hasMore}
+                  isLoading={spaceHierarchy.isLoading}
+                  error={spaceHierarchy.error}
+                  onJoin={spaceHierarchy.join}
+                  onLoadMore={spaceHierarchy.loadMore}
+                />
+              )}
             </Tabs>
           ) : (
             // Render direct sections (no tabs)
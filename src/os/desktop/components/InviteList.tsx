@@ -0,0 +1,61 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import type { ChatRoom } from '@/kernel/ports/chat';
+import { useChatPort } from '@/kernel/providers/ServicesProvider';
+import { describeInvite, useInviteActions } from '@/hooks/useInviteActions';
+
+interface InviteListProps {
+  invites: ChatRoom[];
+  onOpenRoom: (roomId: string) => void;
+}
+
+/**
+ * Pending invites at the top of the chat index, answered in place
+ */
+export const InviteList: React.FC<InviteListProps> = ({ invites, onOpenRoom }) => {
+  const chatPort = useChatPort();
+  const { pendingIds, error, accept, decline } = useInviteActions(chatPort);
+
+  if (invites.length === 0) return null;
+
+  const handleAccept = async (room: ChatRoom) => {
+    if (await accept(room)) onOpenRoom(room.id);
+  };
+
+  return (
+    <div className="mx-4 mt-3 space-y-1">
+      <div className="px-4 py-2 text-xs text-muted-foreground">Invites · {invites.length}</div>
+      {invites.map(room => (
+        <div key={room.id} className="flex items-center justify-between gap-2 px-2 py-1 rounded hover:bg-accent/30">
+          <div className="min-w-0">
+            <div className="truncate text-xs text-foreground">{room.name}</div>
+            <div className="truncate text-[10px] text-muted-foreground" title={room.invite?.reason}>
+              {describeInvite(room)}
+            </div>
+          </div>
+          {pendingIds.has(room.id) ? (
+            <Loader2 className="h-3 w-3 flex-shrink-0 animate-spin text-muted-foreground" />
+          ) : (
+            <div className="flex flex-shrink-0 gap-2">
+              <button
+                type="button"
+                onClick={() => decline(room)}
+                className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+              >
+                Decline
+              </button>
+              <button
+                type="button"
+                onClick={() => handleAccept(room)}
+                className="text-xs font-medium text-primary hover:underline"
+              >
+                Accept
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <p className="px-2 text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
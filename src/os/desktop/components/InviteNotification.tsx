@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card } from '@/ui/card';
+import { Button } from '@/ui/button';
+import { Mail, X } from 'lucide-react';
+import type { ChatRoom } from '@/kernel/ports/chat';
+import { useChatPort } from '@/kernel/providers/ServicesProvider';
+import { describeInvite, useInviteActions } from '@/hooks/useInviteActions';
+
+interface InviteNotificationProps {
+  invites: ChatRoom[];
+  isLoading: boolean;
+  onOpenRoom: (roomId: string) => void;
+}
+
+/**
+ * Floating card for an invite that arrives while the app is open
+ * Invites already pending at startup are only listed in the index panel
+ * Also raises a system notification when the tab is in the background and notifications are allowed
+ */
+export const InviteNotification: React.FC<InviteNotificationProps> = ({ invites, isLoading, onOpenRoom }) => {
+  const chatPort = useChatPort();
+  const { pendingIds, error, accept, decline } = useInviteActions(chatPort);
+  const [notifiedId, setNotifiedId] = useState<string | null>(null);
+  const seenIdsRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (isLoading) return;
+
+    // The first loaded list is the baseline
+    if (!seenIdsRef.current) {
+      seenIdsRef.current = new Set(invites.map(room => room.id));
+      return;
+    }
+
+    const seenIds = seenIdsRef.current;
+    const newInvite = invites.find(room => !seenIds.has(room.id));
+    invites.forEach(room => seenIds.add(room.id));
+    if (!newInvite) return;
+
+    setNotifiedId(newInvite.id);
+    if (document.hidden && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification('New invite', { body: describeInvite(newInvite), tag: newInvite.id });
+    }
+  }, [invites, isLoading]);
+
+  // Answered here, in the index panel or on another device
+  const room = invites.find(invite => invite.id === notifiedId);
+  if (!room) return null;
+
+  const isBusy = pendingIds.has(room.id);
+
+  const handleAccept = async () => {
+    if (await accept(room)) {
+      setNotifiedId(null);
+      onOpenRoom(room.id);
+    }
+  };
+
+  return (
+    <Card className="fixed top-16 right-4 z-50 w-80 space-y-3 p-4 shadow-lg" role="dialog" aria-label="New invite">
+      <div className="flex items-start gap-2">
+        <Mail className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm">{describeInvite(room)}</p>
+          {room.invite?.reason && <p className="text-xs text-muted-foreground">"{room.invite.reason}"</p>}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => setNotifiedId(null)}
+          aria-label="Dismiss"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => decline(room)} disabled={isBusy}>Decline</Button>
+        <Button size="sm" onClick={handleAccept} disabled={isBusy}>Accept</Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </Card>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { ArrowLeft, Loader2, X } from 'lucide-react';
+import { useChatPort } from '@/kernel/providers/ServicesProvider';
+import type { ChatUser } from '@/kernel/ports/chat';
+import { useUserDirectorySearch } from '@/hooks/useUserDirectorySearch';
+
+interface NewConversationProps {
+  onBack: () => void;
+  onOpenRoom: (roomId: string) => void;
+}
+
+type ConversationKind = 'direct' | 'group';
+
+/**
+ * Start a DM with someone from the user directory, or create a group with invitees
+ */
+export const NewConversation: React.FC<NewConversationProps> = ({ onBack, onOpenRoom }) => {
+  const chatPort = useChatPort();
+  const [kind, setKind] = useState<ConversationKind>('direct');
+  const [query, setQuery] = useState('');
+  const [name, setName] = useState('');
+  const [topic, setTopic] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [isEncrypted, setIsEncrypted] = useState(true);
+  const [invitees, setInvitees] = useState<ChatUser[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { results, isSearching } = useUserDirectorySearch(chatPort, query);
+
+  const create = async (action: () => Promise<string>) => {
+    setError(null);
+    setIsCreating(true);
+    try {
+      onOpenRoom(await action());
+    } catch (err) {
+      console.error('[NewConversation] Failed to create conversation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create conversation');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handlePickUser = (user: ChatUser) => {
+    if (!chatPort) return;
+
+    if (kind === 'direct') {
+      create(() => chatPort.createDirectMessage(user.id));
+      return;
+    }
+
+    setInvitees(prev => prev.some(invitee => invitee.id === user.id) ? prev : [...prev, user]);
+    setQuery('');
+  };
+
+  const handleCreateGroup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!chatPort || !name.trim()) return;
+
+    create(() => chatPort.createRoom({
+      name: name.trim(),
+      topic: topic.trim() || undefined,
+      visibility: isPublic ? 'public' : 'private',
+      isEncrypted,
+      invite: invitees.map(invitee => invitee.id),
+    }));
+  };
+
+  const userResults = (
+    <div className="space-y-1">
+      {isSearching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      {!isSearching && query.trim() && results.length === 0 && (
+        <p className="px-2 text-xs text-muted-foreground">No users found</p>
+      )}
+      {results.map(user => (
+        <button
+          key={user.id}
+          type="button"
+          onClick={() => handlePickUser(user)}
+          disabled={isCreating}
+          className="w-full rounded px-2 py-1 text-left hover:bg-accent/30 transition-colors disabled:opacity-50"
+        >
+          <div className="truncate text-xs text-foreground">{user.displayName || user.id}</div>
+          {user.displayName && <div className="truncate text-[10px] text-muted-foreground">{user.id}</div>}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 px-4 pt-4">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onBack}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+          aria-label="Back"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </button>
+        <span className="text-sm">New conversation</span>
+      </div>
+
+      <div className="flex gap-1">
+        {(['direct', 'group'] as const).map(option => (
+          <Button
+            key={option}
+            variant={kind === option ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-6 px-2.5 text-xs font-normal"
+            onClick={() => setKind(option)}
+          >
+            {option === 'direct' ? 'Direct message' : 'Group'}
+          </Button>
+        ))}
+      </div>
+
+      {kind === 'direct' ? (
+        <>
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search people or @user:server"
+            className="h-8 text-sm"
+            autoFocus
+          />
+          {isCreating ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : userResults}
+        </>
+      ) : (
+        <form onSubmit={handleCreateGroup} className="space-y-2">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className="h-8 text-sm" autoFocus />
+          <Input value={topic} onChange={(e) => setTopic(e.target.value)} placeholder="Topic (optional)" className="h-8 text-sm" />
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input type="checkbox" className="accent-primary" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+            Anyone can find and join
+          </label>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input type="checkbox" className="accent-primary" checked={isEncrypted} onChange={(e) => setIsEncrypted(e.target.checked)} />
+            End-to-end encrypted
+          </label>
+
+          {invitees.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {invitees.map(invitee => (
+                <span key={invitee.id} className="flex items-center gap-1 rounded-full bg-accent/40 px-2 py-0.5 text-[10px]">
+                  {invitee.displayName || invitee.id}
+                  <button
+                    type="button"
+                    onClick={() => setInvitees(prev => prev.filter(user => user.id !== invitee.id))}
+                    aria-label={`Remove ${invitee.displayName || invitee.id}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Invite people"
+            className="h-8 text-sm"
+          />
+          {userResults}
+
+          <Button type="submit" size="sm" className="w-full" disabled={!name.trim() || isCreating}>
+            {isCreating && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Create group
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
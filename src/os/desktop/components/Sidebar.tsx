@@ -15,12 +15,16 @@ interface SidebarProps {
   className?: string;
   onOpenApp?: (appId: string) => void;
   selectedApp?: string | null;
+  chatUnreadCount?: number;
+  chatHighlightCount?: number;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
   className = '',
   onOpenApp,
-  selectedApp
+  selectedApp,
+  chatUnreadCount = 0,
+  chatHighlightCount = 0
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const { user, isAuthenticated } = useAuth();
@@ -45,6 +49,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
           onMouseEnter={() => setIsExpanded(true)}
           isExpanded={isExpanded}
           className={selectedApp === 'chat' ? 'sidebar-item-selected' : ''}
+          badgeCount={chatUnreadCount}
+          badgeHighlighted={chatHighlightCount > 0}
         />
 
         <SidebarItem
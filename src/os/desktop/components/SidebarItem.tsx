@@ -11,6 +11,8 @@ interface SidebarItemProps {
   wrapper?: React.ComponentType<{ children: React.ReactNode }>
   customContent?: React.ReactNode
   className?: string
+  badgeCount?: number
+  badgeHighlighted?: boolean // Use the attention colour, e.g. for mentions
 }
 
 export function SidebarItem({ 
@@ -21,7 +23,9 @@ export function SidebarItem({
   isExpanded,
   wrapper: Wrapper,
   customContent,
-  className = ''
+  className = '',
+  badgeCount = 0,
+  badgeHighlighted = false
 }: SidebarItemProps) {
   const content = customContent || (Icon && (
     <Button
@@ -38,6 +42,15 @@ export function SidebarItem({
   return (
     <div className={`relative group h-10 ${className}`} onMouseEnter={onMouseEnter}>
       {Wrapper ? <Wrapper>{content}</Wrapper> : content}
+      {badgeCount > 0 && (
+        <span
+          className={`absolute left-9 -top-0.5 min-w-4 h-4 px-1 rounded-full text-[10px] leading-4 text-center font-medium pointer-events-none ${
+            badgeHighlighted ? 'bg-destructive text-destructive-foreground' : 'bg-primary text-primary-foreground'
+          }`}
+        >
+          {badgeCount > 99 ? '99+' : badgeCount}
+        </span>
+      )}
       {label && (
         <div
           className={`absolute left-16 top-0 h-10 flex items-center pointer-events-none transition-all duration-300 ${
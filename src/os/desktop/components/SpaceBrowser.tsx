@@ -0,0 +1,97 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import type { ChatRoom, ChatSpaceRoom } from '@/kernel/ports/chat';
+
+interface SpaceSwitcherProps {
+  spaces: ChatRoom[];
+  selectedSpaceId: string | null;
+  onSelect: (spaceId: string | null) => void;
+}
+
+/**
+ * Narrows the chat index to one space's rooms
+ */
+export const SpaceSwitcher: React.FC<SpaceSwitcherProps> = ({ spaces, selectedSpaceId, onSelect }) => {
+  const chipClass = (isSelected: boolean) => `flex-shrink-0 max-w-[8rem] truncate rounded-full px-2.5 py-0.5 text-xs transition-colors ${
+    isSelected ? 'bg-primary text-primary-foreground' : 'bg-muted/50 text-muted-foreground hover:text-foreground'
+  }`;
+
+  return (
+    <div className="flex gap-1 overflow-x-auto px-4 pt-3 pb-1">
+      <button type="button" className={chipClass(selectedSpaceId === null)} onClick={() => onSelect(null)}>
+        All
+      </button>
+      {spaces.map(space => (
+        <button
+          key={space.id}
+          type="button"
+          className={chipClass(selectedSpaceId === space.id)}
+          onClick={() => onSelect(space.id)}
+          title={space.name}
+        >
+          {space.name}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface JoinableSpaceRoomsProps {
+  rooms: ChatSpaceRoom[]; // Unjoined rooms in the selected space
+  joiningIds: Set<string>;
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+  onJoin: (room: ChatSpaceRoom) => void;
+  onLoadMore: () => void;
+}
+
+/**
+ * Rooms in the selected space that the user hasn't joined yet
+ */
+export const JoinableSpaceRooms: React.FC<JoinableSpaceRoomsProps> = ({
+  rooms,
+  joiningIds,
+  hasMore,
+  isLoading,
+  error,
+  onJoin,
+  onLoadMore
+}) => {
+  if (rooms.length === 0 && !hasMore && !isLoading && !error) return null;
+
+  return (
+    <div className="px-4 pt-2 pb-16 space-y-1">
+      <div className="px-4 py-2 text-xs text-muted-foreground">More rooms in this space</div>
+      {rooms.map(room => (
+        <div key={room.id} className="flex items-center justify-between gap-2 px-2 py-1 rounded hover:bg-accent/30">
+          <div className="min-w-0">
+            <div className="truncate text-xs text-foreground">
+              {room.name}
+              {room.isSuggested && <span className="ml-1 text-[10px] text-muted-foreground">· Suggested</span>}
+            </div>
+            <div className="truncate text-[10px] text-muted-foreground">
+              {room.memberCount} {room.memberCount === 1 ? 'member' : 'members'}
+              {room.topic && ` · ${room.topic}`}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => onJoin(room)}
+            disabled={joiningIds.has(room.id)}
+            className="flex-shrink-0 text-xs font-medium text-primary hover:underline disabled:opacity-50"
+          >
+            {joiningIds.has(room.id) ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Join'}
+          </button>
+        </div>
+      ))}
+      {isLoading && <Loader2 className="mx-2 h-4 w-4 animate-spin text-muted-foreground" />}
+      {hasMore && !isLoading && (
+        <button type="button" onClick={onLoadMore} className="px-2 text-xs text-muted-foreground hover:text-foreground hover:underline">
+          Show more
+        </button>
+      )}
+      {error && <p className="px-2 text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -4,11 +4,15 @@ import { Button } from '@/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/ui/avatar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/ui/popover';
 import { useAuth, useLogout } from '@/kernel/auth/useAuth';
-import { LogOut, User, Palette } from 'lucide-react';
-import { authConfig } from '@/kernel/auth/auth-config';
+import { LogOut, User, Palette, RefreshCw, Shield, ShieldAlert, MonitorSmartphone } from 'lucide-react';
+import { useMediaUrl } from '@/hooks/useMediaUrl';
+import { useKeyBackupStatus } from '@/hooks/useKeyBackupStatus';
+import { matrixSessionBinder } from '@/services/matrix';
 
 import { ProfileDetails } from './ProfileDetails';
 import { ThemeSettings } from './theme-settings/ThemeSettings';
+import { SecuritySettings } from './security/SecuritySettings';
+import { DevicesSettings } from './devices/DevicesSettings';
 
 import placeholderAvatar from '@/os/desktop/assets/n3o-avatar.jpg';
 
@@ -30,30 +34,28 @@ export const Settings: React.FC<SettingsProps> = ({
   const logoutMutation = useLogout();
   const [showProfileDetail, setShowProfileDetail] = useState(false);
   const [showThemePanel, setShowThemePanel] = useState(false);
+  const [showSecurityPanel, setShowSecurityPanel] = useState(false);
+  const [showDevicesPanel, setShowDevicesPanel] = useState(false);
+  const [isResyncing, setIsResyncing] = useState(false);
+  const keyBackupStatus = useKeyBackupStatus();
+  const isBackupOff = !!keyBackupStatus && (!keyBackupStatus.backupEnabled || !keyBackupStatus.secretStorageReady);
   
   // Use prop user or auth user
   const user = propUser || authUser;
 
+  // Matrix profile images are mxc:// URLs and go through the shared media resolver
+  const profileImage = user?.profileSummary?.profileImage || user?.avatar;
+  const resolvedProfileImage = useMediaUrl(
+    typeof profileImage === 'string' ? profileImage : undefined,
+    { width: 96, height: 96, method: 'crop' }
+  );
+
   // Always show if authenticated, regardless of user object completeness
   if (!isAuthenticated) return null;
 
   // Helper to get avatar image source with consistent fallback logic
   const getAvatarSrc = () => {
-    const profileImage = user?.profileSummary?.profileImage || user?.avatar;
-    
-    // Handle Matrix mxc:// URLs by converting them to HTTP URLs
-    if (profileImage && typeof profileImage === 'string' && profileImage.startsWith('mxc://')) {
-      // Extract the server name and media ID from mxc://server/mediaId
-      const mxcMatch = profileImage.match(/^mxc:\/\/([^\/]+)\/(.+)$/);
-      if (mxcMatch) {
-        const [, serverName, mediaId] = mxcMatch;
-        // Use the actual Matrix homeserver URL instead of the server name from mxc://
-        const homeserverUrl = authConfig.matrixHomeserverUrl;
-        return `${homeserverUrl}/_matrix/media/r0/download/${serverName}/${mediaId}`;
-      }
-    }
-    
-    return profileImage || placeholderAvatar;
+    return resolvedProfileImage || placeholderAvatar;
   };
 
   // Helper to get user initials for fallback
@@ -80,6 +82,19 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const handleClearCache = async () => {
+    if (!window.confirm('Clear the local chat cache and sync again from the server? This can take a moment.')) return;
+
+    setIsResyncing(true);
+    try {
+      await matrixSessionBinder.clearCacheAndResync();
+    } catch (error) {
+      console.error('Clear cache error:', error);
+    } finally {
+      setIsResyncing(false);
+    }
+  };
+
   // Use Zero.tech user data structure
   const displayName = user?.profileSummary?.firstName 
     ? `${user.profileSummary.firstName} ${user.profileSummary.lastName || ''}`.trim()
@@ -140,6 +155,10 @@ export const Settings: React.FC<SettingsProps> = ({
               <ProfileDetails user={user} onBack={() => setShowProfileDetail(false)} />
             ) : showThemePanel ? (
               <ThemeSettings onBack={() => setShowThemePanel(false)} />
+            ) : showSecurityPanel ? (
+              <SecuritySettings onBack={() => setShowSecurityPanel(false)} />
+            ) : showDevicesPanel ? (
+              <DevicesSettings onBack={() => setShowDevicesPanel(false)} />
             ) : (
               <Card className="border-0 shadow-none flex flex-col h-full overflow-y-auto">
                 <div className="px-6 pt-16 pb-6 border-b">
@@ -193,6 +212,39 @@ export const Settings: React.FC<SettingsProps> = ({
                     Theme
                   </Button>
 
+                  <Button
+                    variant="ghost"
+                    className="w-full justify-start h-8 px-2 text-sm font-normal"
+                    onClick={() => setShowSecurityPanel(true)}
+                  >
+                    {isBackupOff ? (
+                      <ShieldAlert className="mr-2 h-4 w-4 text-destructive" />
+                    ) : (
+                      <Shield className="mr-2 h-4 w-4" />
+                    )}
+                    Security
+                    {isBackupOff && <span className="ml-auto text-xs text-destructive">Backup off</span>}
+                  </Button>
+
+                  <Button
+                    variant="ghost"
+                    className="w-full justify-start h-8 px-2 text-sm font-normal"
+                    onClick={() => setShowDevicesPanel(true)}
+                  >
+                    <MonitorSmartphone className="mr-2 h-4 w-4" />
+                    Devices
+                  </Button>
+
+                  <Button
+                    variant="ghost"
+                    className="w-full justify-start h-8 px-2 text-sm font-normal"
+                    onClick={handleClearCache}
+                    disabled={isResyncing}
+                  >
+                    <RefreshCw className={`mr-2 h-4 w-4 ${isResyncing ? 'animate-spin' : ''}`} />
+                    {isResyncing ? 'Resyncing...' : 'Clear cache & resync'}
+                  </Button>
+
                   <div className="border-t my-2" />
 
                   <Button
@@ -243,6 +295,10 @@ export const Settings: React.FC<SettingsProps> = ({
           <ProfileDetails user={user} onBack={() => setShowProfileDetail(false)} />
         ) : showThemePanel ? (
           <ThemeSettings onBack={() => setShowThemePanel(false)} />
+        ) : showSecurityPanel ? (
+          <SecuritySettings onBack={() => setShowSecurityPanel(false)} />
+        ) : showDevicesPanel ? (
+          <DevicesSettings onBack={() => setShowDevicesPanel(false)} />
         ) : (
           <Card className="border-0 shadow-none">
             <div className="px-6 pt-16 pb-6 border-b">
@@ -296,6 +352,39 @@ export const Settings: React.FC<SettingsProps> = ({
                 Theme
               </Button>
 
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-8 px-2 text-sm font-normal"
+                onClick={() => setShowSecurityPanel(true)}
+              >
+                {isBackupOff ? (
+                  <ShieldAlert className="mr-2 h-4 w-4 text-destructive" />
+                ) : (
+                  <Shield className="mr-2 h-4 w-4" />
+                )}
+                Security
+                {isBackupOff && <span className="ml-auto text-xs text-destructive">Backup off</span>}
+              </Button>
+
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-8 px-2 text-sm font-normal"
+                onClick={() => setShowDevicesPanel(true)}
+              >
+                <MonitorSmartphone className="mr-2 h-4 w-4" />
+                Devices
+              </Button>
+
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-8 px-2 text-sm font-normal"
+                onClick={handleClearCache}
+                disabled={isResyncing}
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${isResyncing ? 'animate-spin' : ''}`} />
+                {isResyncing ? 'Resyncing...' : 'Clear cache & resync'}
+              </Button>
+
 
               <div className="border-t my-2" />
 
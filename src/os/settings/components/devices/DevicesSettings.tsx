@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card } from '@/ui/card';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { Separator } from '@/ui/separator';
+import { ArrowLeft, Laptop, Loader2, Pencil, ShieldAlert, ShieldCheck } from 'lucide-react';
+import type { MatrixDevice } from '@/drivers/matrix/MatrixDriver';
+import { matrixDeviceService, InteractiveAuthCancelledError } from '@/services/matrix';
+import { useInteractiveAuth } from '@/hooks/useInteractiveAuth';
+import { InteractiveAuthStep } from '../security/InteractiveAuthStep';
+
+// Devices unused for this long are offered for clean-up
+const INACTIVE_AFTER_MS = 90 * 24 * 60 * 60 * 1000;
+
+interface DevicesSettingsProps {
+  onBack: () => void;
+}
+
+const formatLastSeen = (device: MatrixDevice) => {
+  const parts = [];
+  if (device.lastSeenTs) {
+    parts.push(new Date(device.lastSeenTs).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    }));
+  }
+  if (device.lastSeenIp) {
+    parts.push(device.lastSeenIp);
+  }
+  return parts.length > 0 ? `Last seen ${parts.join(' · ')}` : 'Never seen';
+};
+
+export const DevicesSettings: React.FC<DevicesSettingsProps> = ({ onBack }) => {
+  const auth = useInteractiveAuth();
+  const [devices, setDevices] = useState<MatrixDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setDevices(await matrixDeviceService.getDevices());
+      setError(null);
+    } catch (err) {
+      console.error('[DevicesSettings] Failed to load devices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const toggleSelected = (deviceId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(deviceId)) {
+        next.delete(deviceId);
+      } else {
+        next.add(deviceId);
+      }
+      return next;
+    });
+  };
+
+  const selectInactive = () => {
+    const cutoff = Date.now() - INACTIVE_AFTER_MS;
+    setSelectedIds(new Set(otherDevices
+      .filter(device => (device.lastSeenTs ?? 0) < cutoff)
+      .map(device => device.deviceId)));
+  };
+
+  const handleRename = async (deviceId: string, displayName: string) => {
+    setError(null);
+    try {
+      await matrixDeviceService.renameDevice(deviceId, displayName);
+      await loadDevices();
+    } catch (err) {
+      console.error('[DevicesSettings] Failed to rename device:', err);
+      setError(err instanceof Error ? err.message : 'Failed to rename device');
+    }
+  };
+
+  const handleSignOut = async (deviceIds: string[]) => {
+    setError(null);
+    setIsSigningOut(true);
+    try {
+      await matrixDeviceService.deleteDevices(deviceIds, auth.prompt);
+      setSelectedIds(new Set());
+      await loadDevices();
+    } catch (err) {
+      if (!(err instanceof InteractiveAuthCancelledError)) {
+        console.error('[DevicesSettings] Failed to sign out devices:', err);
+        setError(err instanceof Error ? err.message : 'Failed to sign out devices');
+      }
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  const thisDevice = devices.find(device => device.isCurrent);
+  const otherDevices = devices.filter(device => !device.isCurrent);
+
+  return (
+    <Card className="border-0 shadow-none flex flex-col h-full overflow-y-auto">
+      <div className="p-4 border-b flex items-center space-x-3">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onBack}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h3 className="font-medium">Devices</h3>
+      </div>
+
+      <div className="p-6 flex-1 space-y-6">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {/* This device */}
+            {thisDevice && (
+              <div className="space-y-3">
+                <span className="text-sm">This device</span>
+                <DeviceRow device={thisDevice} onRename={handleRename} />
+              </div>
+            )}
+
+            <Separator />
+
+            {/* Other devices */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Other devices</span>
+                {otherDevices.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={selectInactive}
+                    className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                  >
+                    Select inactive
+                  </button>
+                )}
+              </div>
+              {otherDevices.length === 0 && (
+                <p className="text-xs text-muted-foreground">No other devices are signed in.</p>
+              )}
+              {otherDevices.map(device => (
+                <DeviceRow key={device.deviceId} device={device} onRename={handleRename}>
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 flex-shrink-0 accent-primary"
+                    checked={selectedIds.has(device.deviceId)}
+                    onChange={() => toggleSelected(device.deviceId)}
+                    aria-label={`Select ${device.displayName || device.deviceId}`}
+                  />
+                </DeviceRow>
+              ))}
+
+              {auth.stage ? (
+                <InteractiveAuthStep stage={auth.stage} onRespond={auth.respond} />
+              ) : selectedIds.size > 0 && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => handleSignOut([...selectedIds])}
+                  disabled={isSigningOut}
+                >
+                  {isSigningOut && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Sign out {selectedIds.size} {selectedIds.size === 1 ? 'device' : 'devices'}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    </Card>
+  );
+};
+
+interface DeviceRowProps {
+  device: MatrixDevice;
+  onRename: (deviceId: string, displayName: string) => Promise<void>;
+  children?: React.ReactNode;
+}
+
+const DeviceRow: React.FC<DeviceRowProps> = ({ device, onRename, children }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+
+  const startEditing = () => {
+    setName(device.displayName || '');
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    await onRename(device.deviceId, name);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Device name" autoFocus />
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>Cancel</Button>
+        <Button type="submit" size="sm" disabled={!name.trim()}>Save</Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <Laptop className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">
+        <p className="flex items-center gap-1 text-sm">
+          <span className="truncate">{device.displayName || device.deviceId}</span>
+          <button
+            type="button"
+            onClick={startEditing}
+            className="flex-shrink-0 text-muted-foreground hover:text-foreground"
+            aria-label="Rename device"
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+        </p>
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          {device.isVerified ? (
+            <ShieldCheck className="h-3 w-3 flex-shrink-0 text-success" aria-label="Verified" />
+          ) : (
+            <ShieldAlert className="h-3 w-3 flex-shrink-0 text-destructive" aria-label="Not verified" />
+          )}
+          <span className="truncate">{device.deviceId}</span>
+        </p>
+        <p className="text-xs text-muted-foreground truncate">{formatLastSeen(device)}</p>
+      </div>
+      {children}
+    </div>
+  );
+};
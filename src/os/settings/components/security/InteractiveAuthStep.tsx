@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import type { InteractiveAuthStage } from '@/services/matrix';
+
+interface InteractiveAuthStepProps {
+  stage: InteractiveAuthStage;
+  onRespond: (value: string | true | null) => void;
+}
+
+/**
+ * Asks the user to confirm their identity before a sensitive account change
+ */
+export const InteractiveAuthStep: React.FC<InteractiveAuthStepProps> = ({ stage, onRespond }) => {
+  const [password, setPassword] = useState('');
+  const [hasOpenedSso, setHasOpenedSso] = useState(false);
+
+  if (stage.type === 'password') {
+    return (
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (password) onRespond(password);
+        }}
+      >
+        <p className="text-xs text-muted-foreground">Enter your account password to continue.</p>
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoFocus
+        />
+        {stage.error && <p className="text-xs text-destructive">{stage.error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={() => onRespond(null)}>Cancel</Button>
+          <Button type="submit" size="sm" disabled={!password}>Continue</Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Confirm your identity by signing in again in a new window, then come back here.
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => onRespond(null)}>Cancel</Button>
+        {hasOpenedSso ? (
+          <Button size="sm" onClick={() => onRespond(true)}>I've signed in</Button>
+        ) : (
+          <Button
+            size="sm"
+            onClick={() => {
+              window.open(stage.fallbackUrl, '_blank', 'noopener');
+              setHasOpenedSso(true);
+            }}
+          >
+            Sign in
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { FileKey, Loader2 } from 'lucide-react';
+import { matrixKeyBackupService, type KeyRestoreProgress } from '@/services/matrix';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type KeyFileFlow =
+  | { step: 'idle' }
+  | { step: 'export' }
+  | { step: 'exporting' }
+  | { step: 'import' }
+  | { step: 'importing'; progress?: KeyRestoreProgress }
+  | { step: 'imported'; progress: KeyRestoreProgress };
+
+/**
+ * Export and import room keys as encrypted key files, compatible with other Matrix clients
+ */
+export const RoomKeyFileSection: React.FC = () => {
+  const [flow, setFlow] = useState<KeyFileFlow>({ step: 'idle' });
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = (next: KeyFileFlow) => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setFile(null);
+    setError(null);
+    setFlow(next);
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setFlow({ step: 'exporting' });
+    try {
+      const contents = await matrixKeyBackupService.exportRoomKeys(passphrase);
+      const url = URL.createObjectURL(new Blob([contents], { type: 'text/plain' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'matrix-room-keys.txt';
+      link.click();
+      URL.revokeObjectURL(url);
+      reset({ step: 'idle' });
+    } catch (err) {
+      console.error('[RoomKeyFileSection] Failed to export keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export keys');
+      setFlow({ step: 'export' });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setError(null);
+    setFlow({ step: 'importing' });
+    try {
+      const progress = await matrixKeyBackupService.importRoomKeys(await file.text(), passphrase, (next) => {
+        setFlow({ step: 'importing', progress: next });
+      });
+      reset({ step: 'imported', progress });
+    } catch (err) {
+      console.error('[RoomKeyFileSection] Failed to import keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import keys');
+      setFlow({ step: 'import' });
+    }
+  };
+
+  const renderFlow = () => {
+    switch (flow.step) {
+      case 'idle':
+        return (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={() => reset({ step: 'export' })}>
+              Export keys
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1" onClick={() => reset({ step: 'import' })}>
+              Import keys
+            </Button>
+          </div>
+        );
+
+      case 'export':
+      case 'exporting': {
+        const isValid = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmPassphrase;
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              The file is encrypted with this passphrase. You'll need it to import the keys again.
+            </p>
+            <Input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" />
+            <Input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} placeholder="Confirm passphrase" />
+            {passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH && (
+              <p className="text-xs text-muted-foreground">Use at least {MIN_PASSPHRASE_LENGTH} characters.</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => reset({ step: 'idle' })} disabled={flow.step === 'exporting'}>Cancel</Button>
+              <Button size="sm" onClick={handleExport} disabled={!isValid || flow.step === 'exporting'}>
+                {flow.step === 'exporting' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                Export
+              </Button>
+            </div>
+          </div>
+        );
+      }
+
+      case 'import':
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Choose a key file exported from this or another Matrix client.
+            </p>
+            <Input type="file" accept=".txt,text/plain" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+            <Input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="File passphrase" />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => reset({ step: 'idle' })}>Cancel</Button>
+              <Button size="sm" onClick={handleImport} disabled={!file || !passphrase}>Import</Button>
+            </div>
+          </div>
+        );
+
+      case 'importing':
+        return (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {flow.progress
+              ? `Importing keys... ${flow.progress.loaded} of ${flow.progress.total}`
+              : 'Decrypting file...'}
+          </div>
+        );
+
+      case 'imported':
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Imported {flow.progress.loaded} of {flow.progress.total} keys.
+            </p>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => reset({ step: 'idle' })}>Done</Button>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <FileKey className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm">Room key file</span>
+      </div>
+      {renderFlow()}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useState } from 'react';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { Copy, Download, KeyRound, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import type { GeneratedSecretStorageKey } from 'matrix-js-sdk/lib/crypto-api';
+import { matrixKeyBackupService, InteractiveAuthCancelledError, type KeyRestoreProgress } from '@/services/matrix';
+import { useKeyBackupStatus } from '@/hooks/useKeyBackupStatus';
+import { useInteractiveAuth } from '@/hooks/useInteractiveAuth';
+import { InteractiveAuthStep } from './InteractiveAuthStep';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type BackupFlow =
+  | { step: 'idle' }
+  | { step: 'passphrase' }
+  | { step: 'save'; recoveryKey: GeneratedSecretStorageKey }
+  | { step: 'saving'; recoveryKey: GeneratedSecretStorageKey }
+  | { step: 'finish' }
+  | { step: 'finishing' }
+  | { step: 'restore' }
+  | { step: 'restoring'; progress?: KeyRestoreProgress }
+  | { step: 'restored'; progress: KeyRestoreProgress };
+
+/**
+ * Key backup status with guided recovery setup and restore
+ */
+export const SecureBackupSection: React.FC = () => {
+  const status = useKeyBackupStatus();
+  const auth = useInteractiveAuth();
+  const [flow, setFlow] = useState<BackupFlow>({ step: 'idle' });
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recoveryInput, setRecoveryInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fail = (err: unknown, fallback: string, resetTo: BackupFlow) => {
+    if (!(err instanceof InteractiveAuthCancelledError)) {
+      console.error('[SecureBackupSection]', fallback, err);
+      setError(err instanceof Error ? err.message : fallback);
+    }
+    setFlow(resetTo);
+  };
+
+  const generateKey = async (withPassphrase?: string) => {
+    setError(null);
+    try {
+      const recoveryKey = await matrixKeyBackupService.createRecoveryKey(withPassphrase);
+      setFlow({ step: 'save', recoveryKey });
+    } catch (err) {
+      fail(err, 'Failed to create a recovery key', { step: 'idle' });
+    }
+  };
+
+  const setUpRecovery = async (recoveryKey: GeneratedSecretStorageKey) => {
+    setError(null);
+    setFlow({ step: 'saving', recoveryKey });
+    try {
+      await matrixKeyBackupService.setUpRecovery(recoveryKey, auth.prompt);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setFlow({ step: 'idle' });
+    } catch (err) {
+      fail(err, 'Failed to set up recovery', { step: 'save', recoveryKey });
+    }
+  };
+
+  const finishSetup = async () => {
+    setError(null);
+    setFlow({ step: 'finishing' });
+    try {
+      await matrixKeyBackupService.finishRecoverySetup(recoveryInput, auth.prompt);
+      setRecoveryInput('');
+      setFlow({ step: 'idle' });
+    } catch (err) {
+      fail(err, 'Failed to finish recovery setup', { step: 'finish' });
+    }
+  };
+
+  const restore = async () => {
+    setError(null);
+    setFlow({ step: 'restoring' });
+    try {
+      const progress = await matrixKeyBackupService.restore(recoveryInput, (next) => {
+        setFlow({ step: 'restoring', progress: next });
+      });
+      setRecoveryInput('');
+      setFlow({ step: 'restored', progress });
+    } catch (err) {
+      fail(err, 'Failed to restore from backup', { step: 'restore' });
+    }
+  };
+
+  const downloadKey = (encodedKey: string) => {
+    const url = URL.createObjectURL(new Blob([encodedKey], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-key.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderFlow = () => {
+    switch (flow.step) {
+      case 'passphrase': {
+        const isValid = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmPassphrase;
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Choose a passphrase you don't use anywhere else. You'll also get a recovery key as a fallback.
+            </p>
+            <Input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" />
+            <Input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} placeholder="Confirm passphrase" />
+            {passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH && (
+              <p className="text-xs text-muted-foreground">Use at least {MIN_PASSPHRASE_LENGTH} characters.</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setFlow({ step: 'idle' })}>Cancel</Button>
+              <Button size="sm" onClick={() => generateKey(passphrase)} disabled={!isValid}>Continue</Button>
+            </div>
+          </div>
+        );
+      }
+
+      case 'save':
+      case 'saving': {
+        const encodedKey = flow.recoveryKey.encodedPrivateKey ?? '';
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Store your recovery key somewhere safe. It's the only way to read old messages if you lose all your devices.
+            </p>
+            <p className="break-all rounded-md bg-accent/30 p-2 font-mono text-xs">{encodedKey}</p>
+            {auth.stage ? (
+              <InteractiveAuthStep stage={auth.stage} onRespond={auth.respond} />
+            ) : (
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(encodedKey)} disabled={flow.step === 'saving'}>
+                  <Copy className="mr-1 h-3 w-3" />
+                  Copy
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => downloadKey(encodedKey)} disabled={flow.step === 'saving'}>
+                  <Download className="mr-1 h-3 w-3" />
+                  Download
+                </Button>
+                <Button size="sm" onClick={() => setUpRecovery(flow.recoveryKey)} disabled={flow.step === 'saving'}>
+                  {flow.step === 'saving' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  I've saved it
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case 'finish':
+      case 'finishing':
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Enter the recovery key or passphrase you set up on your other device. Your backup keeps using it.
+            </p>
+            <Input
+              type="password"
+              value={recoveryInput}
+              onChange={(e) => setRecoveryInput(e.target.value)}
+              placeholder="Recovery key or passphrase"
+              disabled={flow.step === 'finishing'}
+            />
+            {auth.stage ? (
+              <InteractiveAuthStep stage={auth.stage} onRespond={auth.respond} />
+            ) : (
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setFlow({ step: 'idle' })} disabled={flow.step === 'finishing'}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={finishSetup} disabled={!recoveryInput.trim() || flow.step === 'finishing'}>
+                  {flow.step === 'finishing' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Finish setup
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+
+      case 'restore':
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Enter your recovery key or passphrase to verify this device and decrypt your message history.
+            </p>
+            <Input
+              type="password"
+              value={recoveryInput}
+              onChange={(e) => setRecoveryInput(e.target.value)}
+              placeholder="Recovery key or passphrase"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setFlow({ step: 'idle' })}>Cancel</Button>
+              <Button size="sm" onClick={restore} disabled={!recoveryInput.trim()}>Restore</Button>
+            </div>
+          </div>
+        );
+
+      case 'restoring':
+        return (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {flow.progress
+              ? `Restoring keys... ${flow.progress.loaded} of ${flow.progress.total}`
+              : 'Unlocking backup...'}
+          </div>
+        );
+
+      case 'restored':
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Restored {flow.progress.loaded} of {flow.progress.total} keys. Older messages will decrypt as they load.
+            </p>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => setFlow({ step: 'idle' })}>Done</Button>
+            </div>
+          </div>
+        );
+
+      case 'idle':
+        return null;
+    }
+  };
+
+  const renderStatus = () => {
+    if (!status) {
+      return <p className="text-xs text-muted-foreground">Encryption is not available.</p>;
+    }
+
+    if (status.secretStorageReady && status.crossSigningReady && status.backupEnabled) {
+      return (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <ShieldCheck className="h-3 w-3 text-success" />
+          Your keys are backed up.
+        </p>
+      );
+    }
+
+    // Recovery exists for the account, this device just hasn't unlocked it yet
+    if (status.secretStorageReady) {
+      return (
+        <div className="space-y-2">
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <ShieldAlert className="h-3 w-3 text-destructive" />
+            This device can't access your backup yet.
+          </p>
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setFlow({ step: 'restore' })}>
+            Restore from backup
+          </Button>
+        </div>
+      );
+    }
+
+    // Another client created a recovery key but didn't store every secret under it;
+    // a new key would orphan what is already stored, so finish with the existing one
+    if (status.hasRecoveryKey) {
+      return (
+        <div className="space-y-2">
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <ShieldAlert className="h-3 w-3 text-destructive" />
+            Recovery setup wasn't finished on another device.
+          </p>
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setFlow({ step: 'finish' })}>
+            Finish with your recovery key
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <ShieldAlert className="h-3 w-3 text-destructive" />
+          Backup is off. Without it you lose encrypted history when you sign out.
+        </p>
+        <Button variant="outline" size="sm" className="w-full" onClick={() => generateKey()}>
+          Generate recovery key
+        </Button>
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => setFlow({ step: 'passphrase' })}>
+          Use a passphrase
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <KeyRound className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm">Secure backup</span>
+      </div>
+      {flow.step === 'idle' ? renderStatus() : renderFlow()}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
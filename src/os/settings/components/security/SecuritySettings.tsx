@@ -0,0 +1,183 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card } from '@/ui/card';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { Separator } from '@/ui/separator';
+import { ArrowLeft, Laptop, Loader2, ShieldCheck, ShieldAlert, UserCheck } from 'lucide-react';
+import { matrixVerificationService, type VerificationDevice } from '@/services/matrix';
+import { useVerificationSession } from '@/hooks/useVerificationSession';
+import { SecureBackupSection } from './SecureBackupSection';
+import { RoomKeyFileSection } from './RoomKeyFileSection';
+
+interface SecuritySettingsProps {
+  onBack: () => void;
+}
+
+export const SecuritySettings: React.FC<SecuritySettingsProps> = ({ onBack }) => {
+  const session = useVerificationSession();
+  const [devices, setDevices] = useState<VerificationDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [userIdToVerify, setUserIdToVerify] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setDevices(await matrixVerificationService.getOwnDevices());
+      setError(null);
+    } catch (err) {
+      console.error('[SecuritySettings] Failed to load devices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload after each verification so the badges are current
+  const stage = session?.stage;
+  useEffect(() => {
+    if (!stage || stage === 'done') {
+      loadDevices();
+    }
+  }, [stage, loadDevices]);
+
+  const start = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('[SecuritySettings] Failed to start verification:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start verification');
+    }
+  };
+
+  const thisDevice = devices.find(device => device.isCurrent);
+  const otherDevices = devices.filter(device => !device.isCurrent);
+  const isVerifying = !!session && session.stage !== 'done' && session.stage !== 'cancelled';
+  const trimmedUserId = userIdToVerify.trim();
+
+  return (
+    <Card className="border-0 shadow-none flex flex-col h-full overflow-y-auto">
+      <div className="p-4 border-b flex items-center space-x-3">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onBack}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h3 className="font-medium">Security</h3>
+      </div>
+
+      <div className="p-6 flex-1 space-y-6">
+        {/* This device */}
+        <div className="space-y-3">
+          <span className="text-sm">This device</span>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : thisDevice ? (
+            <div className="space-y-3">
+              <DeviceRow device={thisDevice} />
+              {!thisDevice.isVerified && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => start(() => matrixVerificationService.verifyThisDevice())}
+                  disabled={isVerifying}
+                >
+                  Verify with another device
+                </Button>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Encryption is not set up on this device.</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <SecureBackupSection />
+
+        <Separator />
+
+        <RoomKeyFileSection />
+
+        <Separator />
+
+        {/* Other devices */}
+        <div className="space-y-3">
+          <span className="text-sm">Other devices</span>
+          {!isLoading && otherDevices.length === 0 && (
+            <p className="text-xs text-muted-foreground">No other devices are signed in.</p>
+          )}
+          {otherDevices.map(device => (
+            <DeviceRow key={device.deviceId} device={device}>
+              {!device.isVerified && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => start(() => matrixVerificationService.verifyOwnDevice(device.deviceId))}
+                  disabled={isVerifying}
+                >
+                  Verify
+                </Button>
+              )}
+            </DeviceRow>
+          ))}
+        </div>
+
+        <Separator />
+
+        {/* Other users */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <UserCheck className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm">Verify a user</span>
+          </div>
+          <Input
+            value={userIdToVerify}
+            onChange={(e) => setUserIdToVerify(e.target.value)}
+            placeholder="@user:server"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => start(() => matrixVerificationService.verifyUser(trimmedUserId))}
+            disabled={isVerifying || !trimmedUserId.startsWith('@')}
+          >
+            Start verification
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    </Card>
+  );
+};
+
+const DeviceRow: React.FC<{ device: VerificationDevice; children?: React.ReactNode }> = ({ device, children }) => (
+  <div className="flex items-center gap-3">
+    <Laptop className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+    <div className="min-w-0 flex-1">
+      <p className="text-sm truncate">{device.displayName || device.deviceId}</p>
+      <p className="flex items-center gap-1 text-xs text-muted-foreground">
+        {device.isVerified ? (
+          <>
+            <ShieldCheck className="h-3 w-3 text-success" />
+            Verified
+          </>
+        ) : (
+          <>
+            <ShieldAlert className="h-3 w-3 text-destructive" />
+            Not verified
+          </>
+        )}
+        <span className="truncate">· {device.deviceId}</span>
+      </p>
+    </div>
+    {children}
+  </div>
+);
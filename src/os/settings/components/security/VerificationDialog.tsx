@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/ui/card';
+import { Button } from '@/ui/button';
+import { Loader2, ShieldCheck, ShieldAlert, X } from 'lucide-react';
+import { matrixVerificationService, type VerificationSession } from '@/services/matrix';
+import { useVerificationSession } from '@/hooks/useVerificationSession';
+import { VerificationQrCode, VerificationQrScanner } from './VerificationQrCode';
+
+const describeOtherSide = (session: VerificationSession) => {
+  if (session.isSelfVerification) {
+    return session.otherDeviceId ? `your device ${session.otherDeviceId}` : 'your other device';
+  }
+  return session.otherUserId;
+};
+
+/**
+ * Floating card that walks through the verification in progress
+ * Shown for incoming requests wherever the user is, and for ones started from Settings
+ */
+export const VerificationDialog: React.FC = () => {
+  const session = useVerificationSession();
+  const [isScanning, setIsScanning] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stage = session?.stage;
+  useEffect(() => {
+    setIsScanning(false);
+    setError(null);
+  }, [stage]);
+
+  if (!session) return null;
+
+  const run = async (action: () => Promise<void> | void) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('[VerificationDialog] Verification action failed:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const cancel = () => run(() => matrixVerificationService.cancel());
+  const otherSide = describeOtherSide(session);
+
+  const renderBody = () => {
+    switch (session.stage) {
+      case 'incoming':
+        return (
+          <>
+            <p className="text-sm">
+              {session.isSelfVerification
+                ? `Verify this device from ${otherSide} so it can read your encrypted messages.`
+                : `${otherSide} wants to verify you.`}
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={cancel} disabled={isBusy}>Decline</Button>
+              <Button size="sm" onClick={() => run(() => matrixVerificationService.accept())} disabled={isBusy}>
+                Accept
+              </Button>
+            </div>
+          </>
+        );
+
+      case 'waiting':
+      case 'verifying':
+        return (
+          <>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {session.stage === 'waiting' ? `Waiting for ${otherSide} to accept...` : `Waiting for ${otherSide}...`}
+            </div>
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={cancel} disabled={isBusy}>Cancel</Button>
+            </div>
+          </>
+        );
+
+      case 'ready':
+        return (
+          <>
+            {isScanning ? (
+              <>
+                <p className="text-sm">Scan the code shown on {otherSide}.</p>
+                <VerificationQrScanner
+                  onScan={(data) => run(() => matrixVerificationService.scanQrCode(data))}
+                />
+              </>
+            ) : session.qrCode ? (
+              <div className="flex flex-col items-center gap-2">
+                <p className="text-sm self-start">Scan this code with {otherSide}.</p>
+                <VerificationQrCode data={session.qrCode} />
+              </div>
+            ) : (
+              <p className="text-sm">Choose how to verify {otherSide}.</p>
+            )}
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={cancel} disabled={isBusy}>Cancel</Button>
+              {session.canScanQrCode && (
+                <Button variant="outline" size="sm" onClick={() => setIsScanning(!isScanning)} disabled={isBusy}>
+                  {isScanning ? 'Stop scanning' : 'Scan their code'}
+                </Button>
+              )}
+              {session.canUseSas && (
+                <Button size="sm" onClick={() => run(() => matrixVerificationService.startSas())} disabled={isBusy}>
+                  Compare emoji
+                </Button>
+              )}
+            </div>
+          </>
+        );
+
+      case 'sas':
+        return (
+          <>
+            <p className="text-sm">Confirm {otherSide} shows the same {session.emoji ? 'emoji' : 'numbers'}, in the same order.</p>
+            {session.emoji ? (
+              <div className="grid grid-cols-4 gap-2">
+                {session.emoji.map(({ symbol, name }, index) => (
+                  <div key={index} className="flex flex-col items-center rounded-md bg-accent/30 p-2">
+                    <span className="text-2xl" aria-hidden="true">{symbol}</span>
+                    <span className="text-[10px] text-muted-foreground">{name}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center font-mono text-lg tracking-widest">{session.decimals?.join(' ')}</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => run(() => matrixVerificationService.rejectSas())} disabled={isBusy}>
+                They don't match
+              </Button>
+              <Button size="sm" onClick={() => run(() => matrixVerificationService.confirmSas())} disabled={isBusy}>
+                They match
+              </Button>
+            </div>
+          </>
+        );
+
+      case 'confirm-scan':
+        return (
+          <>
+            <p className="text-sm">Does {otherSide} show that it scanned the code successfully?</p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={cancel} disabled={isBusy}>No</Button>
+              <Button size="sm" onClick={() => run(() => matrixVerificationService.confirmQrScanned())} disabled={isBusy}>
+                Yes
+              </Button>
+            </div>
+          </>
+        );
+
+      case 'done':
+        return (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <ShieldCheck className="h-4 w-4 text-success" />
+              {session.isSelfVerification ? 'This device is verified.' : `${otherSide} is verified.`}
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => matrixVerificationService.dismiss()}>Done</Button>
+            </div>
+          </>
+        );
+
+      case 'cancelled':
+        return (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <ShieldAlert className="h-4 w-4 text-destructive" />
+              {session.cancelReason ?? 'The verification was cancelled.'}
+            </div>
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={() => matrixVerificationService.dismiss()}>Close</Button>
+            </div>
+          </>
+        );
+    }
+  };
+
+  const isFinished = session.stage === 'done' || session.stage === 'cancelled';
+
+  return (
+    <Card className="fixed top-16 right-4 z-50 w-80 space-y-3 p-4 shadow-lg" role="dialog" aria-label="Verification">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">
+          {session.isSelfVerification ? 'Verify device' : 'Verify user'}
+        </h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => (isFinished ? matrixVerificationService.dismiss() : cancel())}
+          aria-label={isFinished ? 'Close' : 'Cancel verification'}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {renderBody()}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </Card>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { Loader2 } from 'lucide-react';
+
+interface VerificationQrCodeProps {
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Our verification QR code for the other device to scan
+ */
+export const VerificationQrCode: React.FC<VerificationQrCodeProps> = ({ data }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    // The payload is binary, so it has to be encoded in byte mode
+    QRCode.toDataURL([{ data, mode: 'byte' }], { errorCorrectionLevel: 'L', margin: 2, width: 192 })
+      .then((url) => {
+        if (mounted) setImageUrl(url);
+      })
+      .catch(error => console.error('[VerificationQrCode] Failed to render QR code:', error));
+
+    return () => {
+      mounted = false;
+    };
+  }, [data]);
+
+  if (!imageUrl) {
+    return (
+      <div className="flex h-48 w-48 items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return <img src={imageUrl} alt="Verification QR code" className="h-48 w-48 rounded-md bg-white" />;
+};
+
+interface VerificationQrScannerProps {
+  onScan: (data: Uint8ClampedArray) => void;
+}
+
+/**
+ * Camera view that reports the first QR code it finds
+ */
+export const VerificationQrScanner: React.FC<VerificationQrScannerProps> = ({ onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const scan = () => {
+      const video = videoRef.current;
+      if (stopped || !video || !context) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+        if (code && code.binaryData.length > 0) {
+          stopped = true;
+          onScanRef.current(new Uint8ClampedArray(code.binaryData));
+          return;
+        }
+      }
+
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play().catch(() => {});
+        frame = requestAnimationFrame(scan);
+      })
+      .catch((err) => {
+        console.error('[VerificationQrScanner] Camera unavailable:', err);
+        setError('Camera not available. Allow camera access or compare emoji instead.');
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  return <video ref={videoRef} className="h-48 w-full rounded-md bg-black object-cover" muted playsInline />;
+};
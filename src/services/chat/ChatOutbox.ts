@@ -0,0 +1,309 @@
+/**
+ * ChatOutbox - Persistent queue of outgoing text messages
+ * Messages are stored in IndexedDB until the server accepts them, sent in order per room,
+ * retried with backoff and flushed again whenever the chat connection comes back
+ */
+
+import type { ChatConnectionState, ChatMessage, ChatPort, SendMessageOptions } from '@/kernel/ports/chat';
+
+const DB_NAME = 'zos-chat-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+// After this many failed attempts the message waits for the user to retry or discard it
+const MAX_AUTOMATIC_ATTEMPTS = 5;
+
+export interface OutboxEntry {
+  id: string; // Transaction ID, reused on every attempt so the server deduplicates
+  userId: string;
+  roomId: string;
+  content: string;
+  options: Pick<SendMessageOptions, 'inReplyTo' | 'threadId' | 'mentions'>;
+  createdAt: number;
+  attempts: number;
+  status: 'pending' | 'failed';
+  error?: string;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    }
+  };
+  return requestToPromise(request);
+}
+
+// Catching up already talks to the server, so sending can resume
+function isUsable(state: ChatConnectionState): boolean {
+  return state.status === 'live' || state.status === 'catching-up';
+}
+
+// Client errors other than rate limiting won't succeed on retry
+function isPermanentFailure(error: unknown): boolean {
+  const status = (error as { httpStatus?: number } | null)?.httpStatus;
+  return status !== undefined && status >= 400 && status < 500 && status !== 429;
+}
+
+export class ChatOutbox {
+  private chatPort: ChatPort | null = null;
+  private userId: string | null = null;
+  private db: IDBDatabase | null = null;
+  private connected = true;
+  private entries = new Map<string, OutboxEntry>();
+  private sendingRooms = new Set<string>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private unsubscribeConnection: (() => void) | null = null;
+  private changeListeners: Array<() => void> = [];
+  private sentListeners: Array<(entry: OutboxEntry, message: ChatMessage) => void> = [];
+
+  /**
+   * Start sending for a signed-in user, picking up anything left from a previous session
+   */
+  async bind(chatPort: ChatPort, userId: string): Promise<void> {
+    this.unbind();
+    this.chatPort = chatPort;
+    this.userId = userId;
+    this.connected = isUsable(chatPort.getConnectionState());
+
+    this.unsubscribeConnection = chatPort.onConnectionChange((state) => {
+      const connected = isUsable(state);
+      const reconnected = connected && !this.connected;
+      this.connected = connected;
+      if (reconnected) {
+        this.flush();
+      }
+    });
+
+    try {
+      this.db = await openDatabase();
+      const stored = await requestToPromise(
+        this.db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<OutboxEntry[]>
+      );
+      // The session may have changed while the database was opening
+      if (this.chatPort !== chatPort) return;
+
+      stored
+        .filter(entry => entry.userId === userId)
+        .forEach(entry => this.entries.set(entry.id, entry));
+    } catch (error) {
+      console.warn('[ChatOutbox] IndexedDB unavailable, unsent messages will not survive a reload:', error);
+    }
+
+    this.emitChange();
+    this.flush();
+  }
+
+  unbind(): void {
+    this.unsubscribeConnection?.();
+    this.unsubscribeConnection = null;
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.db?.close();
+    this.db = null;
+    this.chatPort = null;
+    this.userId = null;
+    this.entries.clear();
+    this.emitChange();
+  }
+
+  /**
+   * Queue a message and start sending it
+   */
+  async enqueue(roomId: string, content: string, options: OutboxEntry['options'] = {}): Promise<OutboxEntry> {
+    if (!this.chatPort || !this.userId) {
+      throw new Error('Chat service not available');
+    }
+
+    const entry: OutboxEntry = {
+      id: `zos-${crypto.randomUUID()}`,
+      userId: this.userId,
+      roomId,
+      content,
+      options,
+      createdAt: Date.now(),
+      attempts: 0,
+      status: 'pending',
+    };
+
+    this.entries.set(entry.id, entry);
+    this.emitChange();
+    await this.persist(entry);
+    this.processRoom(roomId);
+    return entry;
+  }
+
+  /**
+   * Send a failed message again, starting a fresh round of attempts
+   */
+  async retry(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    const updated: OutboxEntry = { ...entry, status: 'pending', attempts: 0, error: undefined };
+    this.entries.set(id, updated);
+    this.emitChange();
+    await this.persist(updated);
+    this.processRoom(entry.roomId);
+  }
+
+  async discard(id: string): Promise<void> {
+    if (!this.entries.delete(id)) return;
+    this.emitChange();
+    await this.remove(id);
+  }
+
+  /**
+   * Unsent messages for a room, oldest first
+   */
+  getEntries(roomId: string): OutboxEntry[] {
+    return [...this.entries.values()]
+      .filter(entry => entry.roomId === roomId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Local echo shown in the timeline until the server accepts the message
+   */
+  toLocalEcho(entry: OutboxEntry): ChatMessage {
+    return {
+      id: entry.id,
+      roomId: entry.roomId,
+      sender: entry.userId,
+      content: entry.content,
+      timestamp: entry.createdAt,
+      type: 'text',
+      inReplyTo: entry.options.inReplyTo ? { messageId: entry.options.inReplyTo } : undefined,
+      threadId: entry.options.threadId,
+      sendStatus: entry.status,
+    };
+  }
+
+  onChange(callback: () => void): () => void {
+    this.changeListeners.push(callback);
+    return () => {
+      const index = this.changeListeners.indexOf(callback);
+      if (index > -1) {
+        this.changeListeners.splice(index, 1);
+      }
+    };
+  }
+
+  onSent(callback: (entry: OutboxEntry, message: ChatMessage) => void): () => void {
+    this.sentListeners.push(callback);
+    return () => {
+      const index = this.sentListeners.indexOf(callback);
+      if (index > -1) {
+        this.sentListeners.splice(index, 1);
+      }
+    };
+  }
+
+  private flush(): void {
+    const roomIds = new Set([...this.entries.values()].map(entry => entry.roomId));
+    roomIds.forEach(roomId => this.processRoom(roomId));
+  }
+
+  /**
+   * Send a room's pending messages one at a time so they arrive in order
+   */
+  private async processRoom(roomId: string): Promise<void> {
+    if (this.sendingRooms.has(roomId)) return;
+
+    const timer = this.retryTimers.get(roomId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(roomId);
+    }
+
+    this.sendingRooms.add(roomId);
+    try {
+      while (this.chatPort && this.connected) {
+        const entry = this.getEntries(roomId).find(candidate => candidate.status === 'pending');
+        if (!entry) return;
+
+        const sent = await this.send(this.chatPort, entry);
+        const current = this.entries.get(entry.id);
+        if (!sent && current?.status === 'pending') {
+          this.scheduleRetry(roomId, current.attempts);
+          return;
+        }
+      }
+    } finally {
+      this.sendingRooms.delete(roomId);
+    }
+  }
+
+  private async send(chatPort: ChatPort, entry: OutboxEntry): Promise<boolean> {
+    try {
+      const message = await chatPort.sendMessage(entry.roomId, entry.content, { ...entry.options, txnId: entry.id });
+
+      this.entries.delete(entry.id);
+      this.sentListeners.forEach(callback => callback(entry, message));
+      this.emitChange();
+      await this.remove(entry.id);
+      return true;
+    } catch (error) {
+      console.error('[ChatOutbox] Failed to send message:', error);
+      // Discarded or signed out while the request was in flight
+      if (!this.entries.has(entry.id)) return false;
+
+      const attempts = entry.attempts + 1;
+      const failed = isPermanentFailure(error) || attempts >= MAX_AUTOMATIC_ATTEMPTS;
+      const updated: OutboxEntry = {
+        ...entry,
+        attempts,
+        status: failed ? 'failed' : 'pending',
+        error: error instanceof Error ? error.message : 'Failed to send message',
+      };
+
+      this.entries.set(entry.id, updated);
+      this.emitChange();
+      await this.persist(updated);
+      return false;
+    }
+  }
+
+  private scheduleRetry(roomId: string, attempts: number): void {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+    this.retryTimers.set(roomId, setTimeout(() => {
+      this.retryTimers.delete(roomId);
+      this.processRoom(roomId);
+    }, delay));
+  }
+
+  private async persist(entry: OutboxEntry): Promise<void> {
+    if (!this.db) return;
+    try {
+      await requestToPromise(this.db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      console.error('[ChatOutbox] Failed to persist outbox entry:', error);
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    if (!this.db) return;
+    try {
+      await requestToPromise(this.db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+    } catch (error) {
+      console.error('[ChatOutbox] Failed to remove outbox entry:', error);
+    }
+  }
+
+  private emitChange(): void {
+    this.changeListeners.forEach(callback => callback());
+  }
+}
+
+// Export singleton instance
+export const chatOutbox = new ChatOutbox();
@@ -0,0 +1 @@
+export { ChatOutbox, chatOutbox, type OutboxEntry } from './ChatOutbox';
@@ -7,3 +7,7 @@
 
 // Matrix integration orchestration
 export { MatrixSessionBinder, type MatrixSession, matrixSessionBinder } from './matrix';
+export { matrixMediaResolver, isMxcUrl, type MediaResolveOptions } from './matrix';
+
+// Chat sending
+export { chatOutbox, type OutboxEntry } from './chat';
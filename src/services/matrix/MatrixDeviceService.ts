@@ -0,0 +1,55 @@
+/**
+ * MatrixDeviceService - Manage the devices signed in to our account
+ * Every SSO login can leave a device (and its keys) behind, so users need a way to
+ * review them, give them recognisable names and sign out the stale ones
+ */
+
+import type { MatrixDevice, MatrixDriver } from '@/drivers/matrix/MatrixDriver';
+import { performInteractiveAuth, type InteractiveAuthPrompt } from './MatrixInteractiveAuth';
+
+export class MatrixDeviceService {
+  private driver: MatrixDriver | null = null;
+
+  /**
+   * Bind to the active session's driver - called by MatrixSessionBinder
+   */
+  setDriver(driver: MatrixDriver | null): void {
+    this.driver = driver;
+  }
+
+  async getDevices(): Promise<MatrixDevice[]> {
+    return await this.getDriver().getDevices();
+  }
+
+  async renameDevice(deviceId: string, displayName: string): Promise<void> {
+    await this.getDriver().renameDevice(deviceId, displayName.trim());
+  }
+
+  /**
+   * Sign the given devices out, asking the user to confirm their identity first
+   * Never pass the current device - that is what signing out is for
+   */
+  async deleteDevices(deviceIds: string[], prompt: InteractiveAuthPrompt): Promise<void> {
+    const driver = this.getDriver();
+    const client = driver.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+    if (deviceIds.includes(client.getDeviceId() ?? '')) {
+      throw new Error('Sign out to remove this device');
+    }
+
+    await performInteractiveAuth(client, (auth) => driver.deleteDevices(deviceIds, auth), prompt);
+    console.log(`[MatrixDeviceService] Signed out ${deviceIds.length} device(s)`);
+  }
+
+  private getDriver(): MatrixDriver {
+    if (!this.driver) {
+      throw new Error('Matrix client not available');
+    }
+    return this.driver;
+  }
+}
+
+// Export singleton instance
+export const matrixDeviceService = new MatrixDeviceService();
@@ -0,0 +1,88 @@
+/**
+ * MatrixInteractiveAuth - User-interactive auth (UIA) for sensitive account changes
+ * Runs a request, and when the homeserver asks for authentication prompts the user for a
+ * password or an SSO confirmation before repeating it
+ */
+
+import { AuthType, MatrixError, type AuthDict, type IAuthData, type MatrixClient } from 'matrix-js-sdk';
+
+export type InteractiveAuthStage =
+  | { type: 'password'; error?: string }
+  | { type: 'sso'; fallbackUrl: string }; // Completed by the user in a separate window
+
+/**
+ * Collects one auth stage from the user
+ * Resolves with the password for password stages and true once SSO was completed in the
+ * fallback window; null means the user cancelled
+ */
+export type InteractiveAuthPrompt = (stage: InteractiveAuthStage) => Promise<string | true | null>;
+
+export class InteractiveAuthCancelledError extends Error {
+  constructor() {
+    super('Authentication was cancelled');
+    this.name = 'InteractiveAuthCancelledError';
+  }
+}
+
+// A 401 with flows is the homeserver asking for (more) authentication
+function getAuthData(error: unknown): IAuthData | null {
+  if (error instanceof MatrixError && error.httpStatus === 401 && Array.isArray(error.data?.flows)) {
+    return error.data as IAuthData;
+  }
+  return null;
+}
+
+export async function performInteractiveAuth<T>(
+  client: MatrixClient,
+  makeRequest: (auth: AuthDict | null) => Promise<T>,
+  prompt: InteractiveAuthPrompt
+): Promise<T> {
+  let authData: IAuthData;
+  try {
+    return await makeRequest(null);
+  } catch (error) {
+    const data = getAuthData(error);
+    if (!data) throw error;
+    authData = data;
+  }
+
+  const { session } = authData;
+  const flows = authData.flows ?? [];
+  // Only single-stage flows are supported, which is all homeservers offer for these endpoints
+  const supports = (stage: string) => flows.some(flow => flow.stages.length === 1 && flow.stages[0] === stage);
+
+  if (supports(AuthType.Dummy)) {
+    return makeRequest({ type: AuthType.Dummy, session });
+  }
+
+  if (supports(AuthType.Password)) {
+    let error: string | undefined;
+    for (;;) {
+      const password = await prompt({ type: 'password', error });
+      if (typeof password !== 'string') throw new InteractiveAuthCancelledError();
+
+      try {
+        return await makeRequest({
+          type: AuthType.Password,
+          identifier: { type: 'm.id.user', user: client.getUserId() ?? '' },
+          password,
+          session,
+        });
+      } catch (err) {
+        if (!getAuthData(err)) throw err;
+        error = 'Incorrect password, please try again';
+      }
+    }
+  }
+
+  const ssoType = [AuthType.Sso, AuthType.SsoUnstable].find(supports);
+  if (ssoType && session) {
+    const completed = await prompt({ type: 'sso', fallbackUrl: client.getFallbackAuthUrl(ssoType, session) });
+    if (completed !== true) throw new InteractiveAuthCancelledError();
+
+    // The fallback page completed the stage, so the session alone finishes the request
+    return makeRequest({ session });
+  }
+
+  throw new Error(`Unsupported authentication: ${flows.map(flow => flow.stages.join(' + ')).join(', ') || 'no flows offered'}`);
+}
@@ -0,0 +1,262 @@
+/**
+ * MatrixKeyBackupService - Secure backup and recovery for encryption keys
+ * Sets up secret storage (4S) behind a recovery key or passphrase, bootstraps cross-signing
+ * and key backup, and restores both on a new device so old messages can be decrypted.
+ * Also moves room keys in and out as key files for use without a server-side backup
+ */
+
+import type { MatrixDriver, MatrixKeyBackupStatus } from '@/drivers/matrix/MatrixDriver';
+import {
+  decodeRecoveryKey,
+  deriveRecoveryKeyFromPassphrase,
+  ImportRoomKeyStage,
+  type CryptoCallbacks,
+  type GeneratedSecretStorageKey,
+} from 'matrix-js-sdk/lib/crypto-api';
+import { performInteractiveAuth, type InteractiveAuthPrompt } from './MatrixInteractiveAuth';
+
+export interface KeyRestoreProgress {
+  loaded: number;
+  total: number;
+}
+
+export class MatrixKeyBackupService {
+  private driver: MatrixDriver | null = null;
+  private unsubscribeDriver: (() => void) | null = null;
+  private status: MatrixKeyBackupStatus | null = null;
+  // Secret storage keys unlocked this session, by key ID
+  private secretStorageKeys = new Map<string, Uint8Array>();
+  private listeners: Array<(status: MatrixKeyBackupStatus | null) => void> = [];
+
+  /**
+   * Hands the unlocked recovery key to the SDK whenever it reads or writes secret storage
+   * Passed to the driver when the client is created
+   */
+  readonly cryptoCallbacks: CryptoCallbacks = {
+    getSecretStorageKey: async ({ keys }) => {
+      for (const keyId of Object.keys(keys)) {
+        const key = this.secretStorageKeys.get(keyId);
+        if (key) return [keyId, key];
+      }
+      return null;
+    },
+    cacheSecretStorageKey: (keyId, _keyInfo, key) => {
+      this.secretStorageKeys.set(keyId, key);
+    },
+  };
+
+  /**
+   * Bind to the active session's driver - called by MatrixSessionBinder
+   */
+  setDriver(driver: MatrixDriver | null): void {
+    if (driver === this.driver) return;
+
+    this.unsubscribeDriver?.();
+    this.unsubscribeDriver = null;
+    this.driver = driver;
+    this.secretStorageKeys.clear();
+    this.setStatus(null);
+
+    if (driver) {
+      this.unsubscribeDriver = driver.onKeyBackupChange(() => this.refresh());
+      this.refresh();
+    }
+  }
+
+  getStatus(): MatrixKeyBackupStatus | null {
+    return this.status;
+  }
+
+  onChange(callback: (status: MatrixKeyBackupStatus | null) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      const index = this.listeners.indexOf(callback);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  async refresh(): Promise<void> {
+    const driver = this.driver;
+    try {
+      const status = await driver?.getKeyBackupStatus() ?? null;
+      if (this.driver === driver) {
+        this.setStatus(status);
+      }
+    } catch (error) {
+      console.warn('[MatrixKeyBackupService] Failed to read backup status:', error);
+    }
+  }
+
+  /**
+   * Generate a new recovery key, optionally derived from a passphrase
+   * Nothing is stored until setUpRecovery is called with it
+   */
+  async createRecoveryKey(passphrase?: string): Promise<GeneratedSecretStorageKey> {
+    return await this.getCrypto().createRecoveryKeyFromPassphrase(passphrase || undefined);
+  }
+
+  /**
+   * Protect our cross-signing and backup keys with a new recovery key
+   * Creates the cross-signing identity if needed (which asks the user to authenticate) and
+   * starts a key backup unless this device already holds the current backup's key
+   * Refuses when the account already has a recovery key - replacing it would orphan the
+   * secrets stored under it, so finishRecoverySetup is used with the existing key instead
+   */
+  async setUpRecovery(recoveryKey: GeneratedSecretStorageKey, prompt: InteractiveAuthPrompt): Promise<void> {
+    if (await this.getClient().secretStorage.getDefaultKeyId()) {
+      throw new Error('Recovery is already set up for this account. Enter your existing recovery key instead.');
+    }
+
+    await this.bootstrapRecovery(prompt, recoveryKey);
+    console.log('[MatrixKeyBackupService] Recovery set up');
+    await this.refresh();
+  }
+
+  /**
+   * Complete recovery that another client started, under the account's existing recovery key
+   * Stores whatever secrets are still missing instead of replacing the key
+   */
+  async finishRecoverySetup(recoveryKeyOrPassphrase: string, prompt: InteractiveAuthPrompt): Promise<void> {
+    await this.unlockSecretStorage(recoveryKeyOrPassphrase);
+    await this.bootstrapRecovery(prompt);
+    console.log('[MatrixKeyBackupService] Recovery setup finished');
+    await this.refresh();
+  }
+
+  /**
+   * Bootstrap cross-signing, secret storage and key backup
+   * A new secret storage key is only created when one is passed in
+   */
+  private async bootstrapRecovery(prompt: InteractiveAuthPrompt, newRecoveryKey?: GeneratedSecretStorageKey): Promise<void> {
+    const client = this.getClient();
+    const crypto = this.getCrypto();
+
+    // Keys that exist on the server but nowhere we can reach have to be replaced
+    const crossSigning = await crypto.getCrossSigningStatus();
+    const { masterKey, selfSigningKey, userSigningKey } = crossSigning.privateKeysCachedLocally;
+    const hasCrossSigningKeys = crossSigning.privateKeysInSecretStorage || (masterKey && selfSigningKey && userSigningKey);
+
+    await crypto.bootstrapCrossSigning({
+      setupNewCrossSigning: !hasCrossSigningKeys,
+      authUploadDeviceSigningKeys: (makeRequest) => performInteractiveAuth(client, makeRequest, prompt),
+    });
+
+    const hasBackupKey = !!(await crypto.getKeyBackupInfo()) && !!(await crypto.getSessionBackupPrivateKey());
+    await crypto.bootstrapSecretStorage({
+      createSecretStorageKey: newRecoveryKey ? async () => newRecoveryKey : undefined,
+      setupNewSecretStorage: !!newRecoveryKey,
+      setupNewKeyBackup: !hasBackupKey,
+    });
+  }
+
+  /**
+   * Unlock secret storage with the recovery key or passphrase, trust this device through
+   * cross-signing and download every backed up room key
+   */
+  async restore(recoveryKeyOrPassphrase: string, onProgress?: (progress: KeyRestoreProgress) => void): Promise<KeyRestoreProgress> {
+    const crypto = this.getCrypto();
+    await this.unlockSecretStorage(recoveryKeyOrPassphrase);
+
+    // Pulls the cross-signing keys out of secret storage and signs this device with them
+    await crypto.bootstrapCrossSigning({});
+
+    await crypto.loadSessionBackupPrivateKeyFromSecretStorage();
+    await crypto.checkKeyBackupAndEnable();
+    const result = await crypto.restoreKeyBackup({
+      progressCallback: (progress) => {
+        if (progress.stage === ImportRoomKeyStage.LoadKeys) {
+          onProgress?.({ loaded: progress.successes + progress.failures, total: progress.total });
+        }
+      },
+    });
+
+    console.log(`[MatrixKeyBackupService] Restored ${result.imported} of ${result.total} keys`);
+    await this.refresh();
+    return { loaded: result.imported, total: result.total };
+  }
+
+  /**
+   * Room keys as a passphrase-protected file, for safe keeping or another client
+   */
+  async exportRoomKeys(passphrase: string): Promise<string> {
+    return await this.getDriver().exportRoomKeys(passphrase);
+  }
+
+  async importRoomKeys(
+    file: string,
+    passphrase: string,
+    onProgress?: (progress: KeyRestoreProgress) => void
+  ): Promise<KeyRestoreProgress> {
+    const result = await this.getDriver().importRoomKeys(file, passphrase, (loaded, total) => {
+      onProgress?.({ loaded, total });
+    });
+    return { loaded: result.imported, total: result.total };
+  }
+
+  /**
+   * Check the recovery key or passphrase against the account's default secret storage key
+   * and keep it for the SDK's secret storage callbacks
+   */
+  private async unlockSecretStorage(recoveryKeyOrPassphrase: string): Promise<void> {
+    const client = this.getClient();
+
+    const keyId = await client.secretStorage.getDefaultKeyId();
+    const keyTuple = keyId ? await client.secretStorage.getKey(keyId) : null;
+    if (!keyId || !keyTuple) {
+      throw new Error('Recovery has not been set up for this account');
+    }
+
+    const [, keyInfo] = keyTuple;
+    const key = await this.decodeRecoveryInput(recoveryKeyOrPassphrase.trim(), keyInfo.passphrase);
+    if (!key || !(await client.secretStorage.checkKey(key, keyInfo))) {
+      throw new Error('Incorrect recovery key or passphrase');
+    }
+    this.secretStorageKeys.set(keyId, key);
+  }
+
+  private async decodeRecoveryInput(
+    input: string,
+    passphrase?: { salt: string; iterations: number }
+  ): Promise<Uint8Array | null> {
+    try {
+      return decodeRecoveryKey(input);
+    } catch {
+      // Not a recovery key - treat it as the passphrase if the key has one
+      if (!passphrase) return null;
+      return await deriveRecoveryKeyFromPassphrase(input, passphrase.salt, passphrase.iterations);
+    }
+  }
+
+  private getDriver(): MatrixDriver {
+    if (!this.driver) {
+      throw new Error('Matrix client not available');
+    }
+    return this.driver;
+  }
+
+  private getClient() {
+    const client = this.driver?.getClient();
+    if (!client) {
+      throw new Error('Matrix client not available');
+    }
+    return client;
+  }
+
+  private getCrypto() {
+    const crypto = this.getClient().getCrypto();
+    if (!crypto) {
+      throw new Error('Encryption is not available');
+    }
+    return crypto;
+  }
+
+  private setStatus(status: MatrixKeyBackupStatus | null): void {
+    this.status = status;
+    this.listeners.forEach(callback => callback(status));
+  }
+}
+
+// Export singleton instance
+export const matrixKeyBackupService = new MatrixKeyBackupService();
@@ -0,0 +1,157 @@
+/**
+ * MatrixMediaResolver - Turns mxc:// URLs into something an <img> or <a> can load
+ * Uses authenticated media endpoints (Matrix v1.11) when the homeserver supports them,
+ * fetching with the access token into object URLs, and decrypts encrypted attachments
+ */
+
+import type { MatrixClient } from 'matrix-js-sdk';
+import { authConfig } from '@/kernel/auth/auth-config';
+import { decryptAttachment, type AttachmentKeyInfo } from '@/drivers/matrix/MatrixAttachmentCrypto';
+
+export interface MediaResolveOptions {
+  width?: number; // Request a server-side thumbnail when set together with height
+  height?: number;
+  method?: 'crop' | 'scale';
+  encryption?: AttachmentKeyInfo; // Encrypted attachments are always fetched in full
+  mimetype?: string;
+}
+
+const MXC_PATTERN = /^mxc:\/\/([^/]+)\/([^/?#]+)$/;
+
+export function isMxcUrl(url: string): boolean {
+  return MXC_PATTERN.test(url);
+}
+
+export class MatrixMediaResolver {
+  private client: MatrixClient | null = null;
+  private authenticatedMedia: Promise<boolean> | null = null;
+  private cache = new Map<string, Promise<string | null>>();
+  private objectUrls: string[] = [];
+
+  /**
+   * Bind to the active session's client - called by MatrixSessionBinder
+   */
+  setClient(client: MatrixClient | null): void {
+    if (client === this.client) return;
+
+    this.clear();
+    this.client = client;
+  }
+
+  /**
+   * Resolve a media URL for display
+   * Non-mxc URLs are returned unchanged; null means the media could not be loaded
+   */
+  resolve(url: string, options: MediaResolveOptions = {}): Promise<string | null> {
+    if (!isMxcUrl(url)) return Promise.resolve(url);
+
+    const cacheKey = options.encryption
+      ? url
+      : `${url}|${options.width || 0}x${options.height || 0}|${options.method || ''}`;
+
+    let pending = this.cache.get(cacheKey);
+    if (!pending) {
+      pending = this.load(url, options).catch((error) => {
+        console.error('[MatrixMediaResolver] Failed to load media:', url, error);
+        this.cache.delete(cacheKey);
+        return null;
+      });
+      this.cache.set(cacheKey, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Save a file to disk, going through the same auth and decryption as display
+   * Downloads are not cached since files can be large
+   */
+  async download(url: string, filename: string, options: Pick<MediaResolveOptions, 'encryption' | 'mimetype'> = {}): Promise<void> {
+    const blob = await this.fetchBlob(url, options);
+    const objectUrl = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = filename;
+    link.click();
+
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+  }
+
+  /**
+   * Revoke object URLs and forget cached lookups
+   */
+  clear(): void {
+    this.objectUrls.forEach(objectUrl => URL.revokeObjectURL(objectUrl));
+    this.objectUrls = [];
+    this.cache.clear();
+    this.authenticatedMedia = null;
+  }
+
+  private async load(url: string, options: MediaResolveOptions): Promise<string | null> {
+    // Plain URLs work directly when the server still serves unauthenticated media
+    if (!options.encryption && !(await this.usesAuthenticatedMedia())) {
+      return this.getHttpUrl(url, options, false);
+    }
+
+    const blob = await this.fetchBlob(url, options);
+    const objectUrl = URL.createObjectURL(blob);
+    this.objectUrls.push(objectUrl);
+    return objectUrl;
+  }
+
+  private async fetchBlob(url: string, options: MediaResolveOptions): Promise<Blob> {
+    const useAuthentication = await this.usesAuthenticatedMedia();
+    // Encrypted files can't be thumbnailed by the server
+    const sizeOptions = options.encryption ? {} : options;
+    const httpUrl = this.getHttpUrl(url, sizeOptions, useAuthentication);
+    if (!httpUrl) {
+      throw new Error(`Invalid media URL: ${url}`);
+    }
+
+    const accessToken = this.client?.getAccessToken();
+    const response = await fetch(httpUrl, {
+      headers: useAuthentication && accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(`Media request failed with status ${response.status}`);
+    }
+
+    if (!options.encryption) {
+      return response.blob();
+    }
+
+    const plaintext = await decryptAttachment(await response.arrayBuffer(), options.encryption);
+    return new Blob([plaintext], { type: options.mimetype || 'application/octet-stream' });
+  }
+
+  private getHttpUrl(url: string, options: MediaResolveOptions, useAuthentication: boolean): string | null {
+    const { width, height, method = 'scale' } = options;
+
+    if (this.client) {
+      return this.client.mxcUrlToHttp(url, width, height, width && height ? method : undefined, false, true, useAuthentication);
+    }
+
+    // No session yet - build a legacy URL against the configured homeserver
+    const match = url.match(MXC_PATTERN);
+    if (!match) return null;
+
+    const [, serverName, mediaId] = match;
+    if (width && height) {
+      return `${authConfig.matrixHomeserverUrl}/_matrix/media/v3/thumbnail/${serverName}/${mediaId}?width=${width}&height=${height}&method=${method}`;
+    }
+    return `${authConfig.matrixHomeserverUrl}/_matrix/media/v3/download/${serverName}/${mediaId}`;
+  }
+
+  private usesAuthenticatedMedia(): Promise<boolean> {
+    const client = this.client;
+    if (!client) return Promise.resolve(false);
+
+    if (!this.authenticatedMedia) {
+      this.authenticatedMedia = client.isVersionSupported('v1.11').catch(() => false);
+    }
+    return this.authenticatedMedia;
+  }
+}
+
+// Export singleton instance
+export const matrixMediaResolver = new MatrixMediaResolver();
@@ -7,8 +7,15 @@
 import * as sdk from "matrix-js-sdk";
 import { MatrixDriver } from '@/drivers/matrix/MatrixDriver';
 import { MatrixAdapter, matrixTokenService } from '@/adapters/matrix';
+import { matrixMediaResolver } from './MatrixMediaResolver';
+import { matrixVerificationService } from './MatrixVerificationService';
+import { matrixKeyBackupService } from './MatrixKeyBackupService';
+import { matrixDeviceService } from './MatrixDeviceService';
+import { chatOutbox } from '@/services/chat';
 import { authService } from '@/network';
+import { useAuthStore } from '@/kernel/auth/store/authStore';
 import { authConfig } from '@/kernel/auth/auth-config';
+import type { AccessTokens } from 'matrix-js-sdk';
 import type { ChatPort } from '@/kernel/ports/chat';
 import type { User } from '@/kernel/auth/types/auth';
 
@@ -20,8 +27,17 @@ export interface MatrixSession {
   error: string | null;
 }
 
+interface MatrixCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  userId: string;
+  deviceId: string;
+}
+
 export class MatrixSessionBinder {
   private currentSession: MatrixSession | null = null;
+  private currentUser: User | null = null;
+  private resuming = false;
   private listeners: Array<(session: MatrixSession | null) => void> = [];
 
   /**
@@ -41,80 +57,29 @@ export class MatrixSessionBinder {
         throw new Error(`Invalid Matrix User ID format: ${user.matrixId}. Expected format: @username:domain`);
       }
 
-      // Get Matrix SSO token
-      console.log('[MatrixSessionBinder] Getting SSO token for user:', user.matrixId);
-      const ssoResponse = await matrixTokenService.getSSOToken(zosAccessToken);
-      const freshMatrixToken = ssoResponse.token;
-
-      if (!freshMatrixToken || typeof freshMatrixToken !== 'string') {
-        throw new Error(`Invalid Matrix SSO token received: ${typeof freshMatrixToken} - ${freshMatrixToken}`);
-      }
-
-      console.log('[MatrixSessionBinder] Got SSO token, length:', freshMatrixToken.length);
-
-      // Check if we have a stored device ID for this user
-      const deviceStorageKey = `matrix_device_${user.matrixId.replace(/[^a-zA-Z0-9]/g, '_')}`;
-      const storedDeviceId = localStorage.getItem(deviceStorageKey);
-      
-      if (storedDeviceId) {
-        console.log('[MatrixSessionBinder] Found stored device ID:', storedDeviceId);
-      }
-
-      // Perform Matrix JWT login to get proper credentials
-      const tempClient = sdk.createClient({
-        baseUrl: authConfig.matrixHomeserverUrl,
-      });
-
-      console.log('[MatrixSessionBinder] Performing JWT login...');
-      
-      // Build login options - include device_id if we have one stored
-      const loginOptions: any = {
-        token: freshMatrixToken,
-      };
-      
-      // If we have a stored device ID, pass it to try to reuse the same device
-      if (storedDeviceId) {
-        loginOptions.device_id = storedDeviceId;
-        console.log('[MatrixSessionBinder] Attempting to reuse device ID:', storedDeviceId);
-      }
-      
-      const loginRequest = await tempClient.login("org.matrix.login.jwt", loginOptions);
-
-      console.log('[MatrixSessionBinder] JWT login response:', loginRequest);
-      console.log('[MatrixSessionBinder] JWT login successful:', {
-        userId: loginRequest.user_id,
-        deviceId: loginRequest.device_id,
-        hasAccessToken: !!loginRequest.access_token,
-        tokenLength: loginRequest.access_token?.length,
-        requestedDeviceId: storedDeviceId,
-        receivedDeviceId: loginRequest.device_id,
-        deviceReused: storedDeviceId === loginRequest.device_id
-      });
-      
-      // Store the device ID for future use if it's the first time
-      if (!storedDeviceId && loginRequest.device_id) {
-        console.log('[MatrixSessionBinder] Storing device ID for future use:', loginRequest.device_id);
-        localStorage.setItem(deviceStorageKey, loginRequest.device_id);
-      } else if (storedDeviceId && loginRequest.device_id !== storedDeviceId) {
-        console.warn('[MatrixSessionBinder] Server returned different device ID than requested!', {
-          requested: storedDeviceId,
-          received: loginRequest.device_id
-        });
-      }
-      
-      // Always use the device ID returned by the server
-      const deviceIdToUse = loginRequest.device_id;
+      // A stored session starts straight from the cached sync data, even offline;
+      // an expired or revoked token is handled like any other session expiry
+      const credentials = this.loadCredentials(user.matrixId)
+        ?? await this.loginWithSSO(user.matrixId, zosAccessToken);
 
       // Create and initialize driver with the stored device ID
       const driver = new MatrixDriver();
       await driver.initialize({
         homeserverUrl: authConfig.matrixHomeserverUrl,
-        accessToken: loginRequest.access_token,
-        userId: loginRequest.user_id,
-        deviceId: deviceIdToUse,  // Use the stored device ID to maintain consistency
+        accessToken: credentials.accessToken,
+        refreshToken: credentials.refreshToken,
+        tokenRefreshFunction: (refreshToken) => this.refreshAccessToken(credentials.userId, refreshToken),
+        userId: credentials.userId,
+        deviceId: credentials.deviceId,  // Use the stored device ID to maintain consistency
+        cryptoCallbacks: matrixKeyBackupService.cryptoCallbacks,
+        syncMode: authConfig.matrixSyncMode,
+        slidingSync: {
+          listRanges: [[0, authConfig.matrixRoomListWindow - 1]],
+          proxyUrl: authConfig.matrixSlidingSyncProxyUrl,
+        },
       });
 
-      // Start syncing to get the most recent 20 rooms
+      // Start syncing to get the most recent rooms
       console.log('[MatrixSessionBinder] Starting sync for recent rooms...');
       try {
         await driver.start();
@@ -127,6 +92,19 @@ export class MatrixSessionBinder {
       // Create adapter
       const adapter = new MatrixAdapter(driver);
 
+      // Media lookups need the session's access token
+      matrixMediaResolver.setClient(driver.getClient());
+
+      matrixVerificationService.setClient(driver.getClient());
+      driver.onVerificationRequest((request) => matrixVerificationService.handleIncomingRequest(request));
+      matrixKeyBackupService.setDriver(driver);
+      matrixDeviceService.setDriver(driver);
+
+      // Resume sending anything left unsent by this user's previous session
+      chatOutbox.bind(adapter, credentials.userId).catch((error) => {
+        console.error('[MatrixSessionBinder] Failed to start outbox:', error);
+      });
+
       // Create session object
       const session: MatrixSession = {
         chatPort: adapter,
@@ -145,7 +123,18 @@ export class MatrixSessionBinder {
         }
       });
 
+      driver.onSessionExpired(({ softLogout }) => {
+        if (this.currentSession !== session) return;
+
+        if (softLogout) {
+          this.resumeSession(session, user);
+        } else {
+          this.endSignedOutSession(session, user);
+        }
+      });
+
       this.currentSession = session;
+      this.currentUser = user;
       this.notifyListeners(session);
 
       return session;
@@ -169,6 +158,211 @@ export class MatrixSessionBinder {
     }
   }
 
+  /**
+   * Exchange the ZOS access token for Matrix credentials via JWT login
+   * Reuses the device stored for this user so the crypto store stays valid
+   */
+  private async loginWithSSO(matrixId: string, zosAccessToken: string): Promise<MatrixCredentials> {
+    // Get Matrix SSO token
+    console.log('[MatrixSessionBinder] Getting SSO token for user:', matrixId);
+    const ssoResponse = await matrixTokenService.getSSOToken(zosAccessToken);
+    const freshMatrixToken = ssoResponse.token;
+
+    if (!freshMatrixToken || typeof freshMatrixToken !== 'string') {
+      throw new Error(`Invalid Matrix SSO token received: ${typeof freshMatrixToken} - ${freshMatrixToken}`);
+    }
+
+    console.log('[MatrixSessionBinder] Got SSO token, length:', freshMatrixToken.length);
+
+    // Check if we have a stored device ID for this user
+    const deviceStorageKey = this.getDeviceStorageKey(matrixId);
+    const storedDeviceId = localStorage.getItem(deviceStorageKey);
+    
+    if (storedDeviceId) {
+      console.log('[MatrixSessionBinder] Found stored device ID:', storedDeviceId);
+    }
+
+    // Perform Matrix JWT login to get proper credentials
+    const tempClient = sdk.createClient({
+      baseUrl: authConfig.matrixHomeserverUrl,
+    });
+
+    console.log('[MatrixSessionBinder] Performing JWT login...');
+    
+    // Build login options - include device_id if we have one stored
+    const loginOptions: any = {
+      token: freshMatrixToken,
+      // Ask for a refresh token so expiring access tokens can be renewed in place
+      refresh_token: true,
+    };
+    
+    // If we have a stored device ID, pass it to try to reuse the same device
+    if (storedDeviceId) {
+      loginOptions.device_id = storedDeviceId;
+      console.log('[MatrixSessionBinder] Attempting to reuse device ID:', storedDeviceId);
+    }
+    
+    const loginRequest = await tempClient.login("org.matrix.login.jwt", loginOptions);
+
+    console.log('[MatrixSessionBinder] JWT login successful:', {
+      userId: loginRequest.user_id,
+      deviceId: loginRequest.device_id,
+      hasAccessToken: !!loginRequest.access_token,
+      hasRefreshToken: !!loginRequest.refresh_token,
+      tokenLength: loginRequest.access_token?.length,
+      requestedDeviceId: storedDeviceId,
+      receivedDeviceId: loginRequest.device_id,
+      deviceReused: storedDeviceId === loginRequest.device_id
+    });
+    
+    // Store the device ID for future use if it's the first time
+    if (!storedDeviceId && loginRequest.device_id) {
+      console.log('[MatrixSessionBinder] Storing device ID for future use:', loginRequest.device_id);
+      localStorage.setItem(deviceStorageKey, loginRequest.device_id);
+    } else if (storedDeviceId && loginRequest.device_id !== storedDeviceId) {
+      console.warn('[MatrixSessionBinder] Server returned different device ID than requested!', {
+        requested: storedDeviceId,
+        received: loginRequest.device_id
+      });
+    }
+    
+    const credentials: MatrixCredentials = {
+      accessToken: loginRequest.access_token,
+      refreshToken: loginRequest.refresh_token,
+      userId: loginRequest.user_id,
+      // Always use the device ID returned by the server
+      deviceId: loginRequest.device_id,
+    };
+    this.storeCredentials(matrixId, credentials);
+    return credentials;
+  }
+
+  /**
+   * Credentials from an earlier login, reused on reload instead of signing in again
+   */
+  private loadCredentials(matrixId: string): MatrixCredentials | null {
+    try {
+      const stored = localStorage.getItem(this.getCredentialsStorageKey(matrixId));
+      const credentials = stored ? JSON.parse(stored) as MatrixCredentials : null;
+      if (!credentials?.accessToken || !credentials.deviceId || credentials.userId !== matrixId) return null;
+
+      // Sessions stored by earlier versions also held the refresh token - rewrite them without it
+      if (credentials.refreshToken) this.storeCredentials(matrixId, credentials);
+
+      console.log('[MatrixSessionBinder] Reusing stored session for device:', credentials.deviceId);
+      return { accessToken: credentials.accessToken, userId: credentials.userId, deviceId: credentials.deviceId };
+    } catch (error) {
+      console.warn('[MatrixSessionBinder] Ignoring unreadable stored session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist what a reload needs to start without signing in again
+   * localStorage is readable by any script on the origin, so the long-lived refresh token
+   * stays in memory; a reloaded session whose access token expires signs in again via SSO
+   */
+  private storeCredentials(matrixId: string, credentials: MatrixCredentials): void {
+    const { accessToken, userId, deviceId } = credentials;
+    localStorage.setItem(this.getCredentialsStorageKey(matrixId), JSON.stringify({ accessToken, userId, deviceId }));
+  }
+
+  private clearCredentials(matrixId: string): void {
+    localStorage.removeItem(this.getCredentialsStorageKey(matrixId));
+  }
+
+  private getCredentialsStorageKey(matrixId: string): string {
+    return `matrix_session_${matrixId.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  }
+
+  private getDeviceStorageKey(matrixId: string): string {
+    return `matrix_device_${matrixId.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  }
+
+  /**
+   * Renew an expired access token; the SDK calls this when a request fails with M_UNKNOWN_TOKEN
+   */
+  private async refreshAccessToken(matrixId: string, refreshToken: string): Promise<AccessTokens> {
+    const tempClient = sdk.createClient({
+      baseUrl: authConfig.matrixHomeserverUrl,
+    });
+
+    const response = await tempClient.refreshToken(refreshToken);
+    console.log('[MatrixSessionBinder] Access token refreshed');
+
+    // Keep the stored session current so the next reload doesn't start with a dead token
+    const stored = this.loadCredentials(matrixId);
+    if (stored) {
+      this.storeCredentials(matrixId, { ...stored, accessToken: response.access_token });
+    }
+
+    return {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token,
+      expiry: response.expires_in_ms ? new Date(Date.now() + response.expires_in_ms) : undefined,
+    };
+  }
+
+  /**
+   * Sign in again after a soft logout, keeping the device, its crypto store and the
+   * subscribers of the current session
+   */
+  private async resumeSession(session: MatrixSession, user: User): Promise<void> {
+    if (this.resuming || !user.matrixId) return;
+
+    const zosAccessToken = authService.getCurrentToken();
+    if (!zosAccessToken) {
+      console.warn('[MatrixSessionBinder] Cannot resume Matrix session without a ZOS access token');
+      return;
+    }
+
+    this.resuming = true;
+    try {
+      console.log('[MatrixSessionBinder] Session expired, signing in again...');
+      // SSO login tokens are single use, so a cached one can't be replayed
+      matrixTokenService.clearMatrixToken();
+      const credentials = await this.loginWithSSO(user.matrixId, zosAccessToken);
+      if (this.currentSession !== session) return;
+
+      await session.driver.resumeSession({
+        accessToken: credentials.accessToken,
+        refreshToken: credentials.refreshToken,
+      });
+      matrixMediaResolver.setClient(session.driver.getClient());
+      matrixVerificationService.setClient(session.driver.getClient());
+      matrixKeyBackupService.refresh();
+      console.log('[MatrixSessionBinder] Session resumed');
+    } catch (error) {
+      console.error('[MatrixSessionBinder] Failed to resume session:', error);
+    } finally {
+      this.resuming = false;
+    }
+  }
+
+  /**
+   * The homeserver signed this device out, so its keys are gone for good
+   * Drops the stored session and everything cached for the device, then sends the user back to sign in
+   */
+  private async endSignedOutSession(session: MatrixSession, user: User): Promise<void> {
+    console.warn('[MatrixSessionBinder] Device was logged out by the homeserver');
+
+    if (user.matrixId) {
+      this.clearCredentials(user.matrixId);
+      localStorage.removeItem(this.getDeviceStorageKey(user.matrixId));
+    }
+
+    try {
+      await session.driver.clearAllStores();
+    } catch (error) {
+      console.error('[MatrixSessionBinder] Failed to clear stores of signed out device:', error);
+    }
+    await this.destroySession();
+
+    const { logoutAsync, setError } = useAuthStore.getState();
+    await logoutAsync();
+    setError('Your chat session was signed out. Sign in again to continue.');
+  }
+
   /**
    * Destroy the current session
    */
@@ -182,9 +376,16 @@ export class MatrixSessionBinder {
       }
 
       this.currentSession = null;
+      this.currentUser = null;
       this.notifyListeners(null);
     }
 
+    matrixMediaResolver.setClient(null);
+    matrixVerificationService.setClient(null);
+    matrixKeyBackupService.setDriver(null);
+    matrixDeviceService.setDriver(null);
+    chatOutbox.unbind();
+
     // Clear token service
     matrixTokenService.clearMatrixToken();
   }
@@ -225,6 +426,19 @@ export class MatrixSessionBinder {
     return await this.createSession(user, currentToken);
   }
 
+  /**
+   * Escape hatch for a broken local cache: drop the persisted sync data and start over
+   * with a full initial sync
+   */
+  async clearCacheAndResync(): Promise<MatrixSession | null> {
+    const session = this.currentSession;
+    const user = this.currentUser;
+    if (!session || !user) return null;
+
+    await session.driver.clearSyncCache();
+    return await this.recreateSession(user);
+  }
+
   /**
    * Subscribe to session changes
    */
@@ -247,7 +461,10 @@ export class MatrixSessionBinder {
    */
   async handleAuthChange(user: User | null, token: string | null): Promise<void> {
     if (!user || !token) {
-      // User logged out
+      // User logged out - the stored Matrix session mustn't outlive the ZOS one
+      if (this.currentUser?.matrixId) {
+        this.clearCredentials(this.currentUser.matrixId);
+      }
       await this.destroySession();
       return;
     }
@@ -284,15 +501,51 @@ export class MatrixSessionBinder {
       getRoom: async () => null,
       joinRoom: async () => { throw new Error('No Matrix session available'); },
       leaveRoom: async () => { throw new Error('No Matrix session available'); },
-      getMessages: async () => [],
+      createRoom: async () => { throw new Error('No Matrix session available'); },
+      createDirectMessage: async () => { throw new Error('No Matrix session available'); },
+      invite: async () => { throw new Error('No Matrix session available'); },
+      acceptInvite: async () => { throw new Error('No Matrix session available'); },
+      declineInvite: async () => { throw new Error('No Matrix session available'); },
+      getSpaceHierarchy: async () => ({ rooms: [], hasMore: false }),
+      getRoomSettings: async () => { throw new Error('No Matrix session available'); },
+      setRoomName: async () => { throw new Error('No Matrix session available'); },
+      setRoomTopic: async () => { throw new Error('No Matrix session available'); },
+      setRoomAvatar: async () => { throw new Error('No Matrix session available'); },
+      setJoinRule: async () => { throw new Error('No Matrix session available'); },
+      setHistoryVisibility: async () => { throw new Error('No Matrix session available'); },
+      enableEncryption: async () => { throw new Error('No Matrix session available'); },
+      setPowerLevelRequirements: async () => { throw new Error('No Matrix session available'); },
+      setMemberPowerLevel: async () => { throw new Error('No Matrix session available'); },
+      getMemberships: async () => [],
+      kick: async () => { throw new Error('No Matrix session available'); },
+      ban: async () => { throw new Error('No Matrix session available'); },
+      unban: async () => { throw new Error('No Matrix session available'); },
+      getMessages: async () => ({ messages: [], hasMore: false }),
+      loadMoreMessages: async () => ({ messages: [], hasMore: false }),
+      getThreadMessages: async () => [],
+      retryDecryption: async () => {},
       sendMessage: async () => { throw new Error('No Matrix session available'); },
+      sendMedia: async () => { throw new Error('No Matrix session available'); },
+      editMessage: async () => { throw new Error('No Matrix session available'); },
+      deleteMessage: async () => { throw new Error('No Matrix session available'); },
+      addReaction: async () => { throw new Error('No Matrix session available'); },
+      removeReaction: async () => { throw new Error('No Matrix session available'); },
       getCurrentUser: async () => null,
       getRoomMembers: async () => [],
+      searchUsers: async () => [],
+      sendTyping: async () => {},
+      sendReadReceipt: async () => {},
+      getReadReceipts: async () => [],
       isConnected: () => false,
+      getConnectionState: () => ({ status: 'disconnected', attempt: 0 }),
       connect: async () => { throw new Error('No Matrix session available'); },
       disconnect: async () => {},
+      reconnectNow: () => {},
       onMessage: () => () => {},
+      onMessageUpdate: () => () => {},
       onRoomUpdate: () => () => {},
+      onTyping: () => () => {},
+      onReceipt: () => () => {},
       onConnectionChange: () => () => {},
     };
   }
@@ -0,0 +1,354 @@
+/**
+ * MatrixVerificationService - Interactive device and user verification
+ * Surfaces incoming verification requests, starts new ones and walks through SAS emoji
+ * comparison or QR code scanning, exposing a plain snapshot for the UI
+ */
+
+import { EventType, type MatrixClient } from 'matrix-js-sdk';
+import {
+  VerificationPhase,
+  VerificationRequestEvent,
+  VerifierEvent,
+  type ShowQrCodeCallbacks,
+  type ShowSasCallbacks,
+  type VerificationRequest,
+  type Verifier,
+} from 'matrix-js-sdk/lib/crypto-api';
+
+const SAS_METHOD = 'm.sas.v1';
+const SHOW_QR_METHOD = 'm.qr_code.show.v1';
+const SCAN_QR_METHOD = 'm.qr_code.scan.v1';
+
+export type VerificationStage =
+  | 'incoming' // Waiting for the user to accept or decline
+  | 'waiting' // Waiting for the other side to accept
+  | 'ready' // Accepted - pick a method
+  | 'sas' // Compare emoji or numbers
+  | 'confirm-scan' // The other side scanned our QR code - confirm they did
+  | 'verifying' // Method chosen, waiting for the other side
+  | 'done'
+  | 'cancelled';
+
+export interface VerificationSession {
+  otherUserId: string;
+  otherDeviceId?: string;
+  isSelfVerification: boolean;
+  initiatedByMe: boolean;
+  stage: VerificationStage;
+  emoji?: Array<{ symbol: string; name: string }>;
+  decimals?: [number, number, number];
+  qrCode?: Uint8ClampedArray; // Raw QR payload for the other side to scan
+  canScanQrCode: boolean; // The other side can show a code for us to scan
+  canUseSas: boolean;
+  cancelReason?: string;
+}
+
+export interface VerificationDevice {
+  deviceId: string;
+  displayName?: string;
+  isCurrent: boolean;
+  isVerified: boolean;
+}
+
+const CANCEL_REASONS: Record<string, string> = {
+  'm.user': 'The verification was cancelled.',
+  'm.timeout': 'The verification timed out.',
+  'm.mismatched_sas': 'The emoji did not match.',
+  'm.key_mismatch': 'The keys did not match.',
+  'm.user_mismatch': 'The other side is not who they were expected to be.',
+  'm.accepted': 'The request was handled on another device.',
+};
+
+export class MatrixVerificationService {
+  private client: MatrixClient | null = null;
+  private request: VerificationRequest | null = null;
+  // Incoming requests that arrived while another verification was in progress
+  private queue: VerificationRequest[] = [];
+  private verifier: Verifier | null = null;
+  private sasCallbacks: ShowSasCallbacks | null = null;
+  private qrCallbacks: ShowQrCodeCallbacks | null = null;
+  private qrCode: Uint8ClampedArray | undefined;
+  private session: VerificationSession | null = null;
+  private listeners: Array<(session: VerificationSession | null) => void> = [];
+
+  /**
+   * Bind to the active session's client - called by MatrixSessionBinder
+   */
+  setClient(client: MatrixClient | null): void {
+    if (client === this.client) return;
+
+    this.client = client;
+    this.queue = [];
+    this.reset();
+    this.update();
+  }
+
+  /**
+   * Surface a request from another user or one of our other devices
+   */
+  handleIncomingRequest(request: VerificationRequest): void {
+    if (request.phase === VerificationPhase.Cancelled || request.phase === VerificationPhase.Done) return;
+
+    if (this.request && this.isActive(this.request)) {
+      this.queue.push(request);
+      return;
+    }
+
+    this.track(request);
+  }
+
+  getSession(): VerificationSession | null {
+    return this.session;
+  }
+
+  onChange(callback: (session: VerificationSession | null) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      const index = this.listeners.indexOf(callback);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Verify this device by asking any of our other signed-in devices
+   */
+  async verifyThisDevice(): Promise<void> {
+    this.track(await this.getCrypto().requestOwnUserVerification());
+  }
+
+  async verifyOwnDevice(deviceId: string): Promise<void> {
+    const userId = this.getUserId();
+    this.track(await this.getCrypto().requestDeviceVerification(userId, deviceId));
+  }
+
+  /**
+   * Verify another user, which needs a direct message room with them
+   */
+  async verifyUser(userId: string): Promise<void> {
+    const roomId = this.findDirectRoom(userId);
+    if (!roomId) {
+      throw new Error('Start a direct conversation with this user before verifying them');
+    }
+
+    this.track(await this.getCrypto().requestVerificationDM(userId, roomId));
+  }
+
+  async accept(): Promise<void> {
+    await this.request?.accept();
+  }
+
+  async cancel(): Promise<void> {
+    if (!this.request) return;
+
+    if (this.isActive(this.request)) {
+      await this.request.cancel();
+    } else {
+      this.next();
+    }
+  }
+
+  async startSas(): Promise<void> {
+    if (!this.request) return;
+    this.attachVerifier(await this.request.startVerification(SAS_METHOD));
+  }
+
+  /**
+   * Continue with the QR code the other side is showing
+   */
+  async scanQrCode(data: Uint8ClampedArray): Promise<void> {
+    if (!this.request) return;
+    this.attachVerifier(await this.request.scanQRCode(data));
+  }
+
+  async confirmSas(): Promise<void> {
+    await this.sasCallbacks?.confirm();
+    this.sasCallbacks = null;
+    this.update();
+  }
+
+  rejectSas(): void {
+    this.sasCallbacks?.mismatch();
+  }
+
+  confirmQrScanned(): void {
+    this.qrCallbacks?.confirm();
+    this.qrCallbacks = null;
+    this.update();
+  }
+
+  /**
+   * Close a finished verification and move on to any request that queued up behind it
+   */
+  dismiss(): void {
+    if (this.request && this.isActive(this.request)) return;
+    this.next();
+  }
+
+  /**
+   * Our devices with their cross-signing verification state, this device first
+   */
+  async getOwnDevices(): Promise<VerificationDevice[]> {
+    const crypto = this.getCrypto();
+    const userId = this.getUserId();
+    const currentDeviceId = this.client?.getDeviceId();
+
+    const deviceMap = await crypto.getUserDeviceInfo([userId]);
+    const devices = [...(deviceMap.get(userId)?.values() ?? [])];
+
+    const result = await Promise.all(devices.map(async (device) => {
+      const status = await crypto.getDeviceVerificationStatus(userId, device.deviceId);
+      return {
+        deviceId: device.deviceId,
+        displayName: device.displayName,
+        isCurrent: device.deviceId === currentDeviceId,
+        isVerified: status?.crossSigningVerified ?? false,
+      };
+    }));
+
+    return result.sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent));
+  }
+
+  private getCrypto() {
+    const crypto = this.client?.getCrypto();
+    if (!crypto) {
+      throw new Error('Encryption is not available');
+    }
+    return crypto;
+  }
+
+  private getUserId(): string {
+    const userId = this.client?.getUserId();
+    if (!userId) {
+      throw new Error('Matrix client not available');
+    }
+    return userId;
+  }
+
+  private findDirectRoom(userId: string): string | undefined {
+    const direct = this.client?.getAccountData(EventType.Direct)?.getContent<Record<string, string[]>>() ?? {};
+    return direct[userId]?.find(roomId => this.client?.getRoom(roomId)?.getMyMembership() === 'join');
+  }
+
+  private isActive(request: VerificationRequest): boolean {
+    return request.phase !== VerificationPhase.Cancelled && request.phase !== VerificationPhase.Done;
+  }
+
+  private track(request: VerificationRequest): void {
+    this.reset();
+    this.request = request;
+    request.on(VerificationRequestEvent.Change, this.handleRequestChange);
+    this.handleRequestChange();
+  }
+
+  private handleRequestChange = (): void => {
+    const request = this.request;
+    if (!request) return;
+
+    if (request.verifier && request.verifier !== this.verifier) {
+      this.attachVerifier(request.verifier);
+    }
+
+    // Offer our QR code as soon as both sides are ready
+    if (request.phase === VerificationPhase.Ready && !this.qrCode && request.otherPartySupportsMethod(SCAN_QR_METHOD)) {
+      request.generateQRCode()
+        .then((qrCode) => {
+          if (this.request === request) {
+            this.qrCode = qrCode;
+            this.update();
+          }
+        })
+        .catch(error => console.warn('[MatrixVerificationService] Could not generate QR code:', error));
+    }
+
+    this.update();
+  };
+
+  /**
+   * Drive a verifier to completion, whichever side started it
+   */
+  private attachVerifier(verifier: Verifier): void {
+    if (verifier === this.verifier) return;
+
+    this.verifier = verifier;
+    verifier.on(VerifierEvent.ShowSas, (callbacks) => {
+      this.sasCallbacks = callbacks;
+      this.update();
+    });
+    verifier.on(VerifierEvent.ShowReciprocateQr, (callbacks) => {
+      this.qrCallbacks = callbacks;
+      this.update();
+    });
+
+    verifier.verify()
+      .then(() => console.log('[MatrixVerificationService] Verification complete'))
+      .catch(error => console.warn('[MatrixVerificationService] Verification ended:', error))
+      .finally(() => this.update());
+  }
+
+  private update(): void {
+    const request = this.request;
+    this.session = request ? {
+      otherUserId: request.otherUserId,
+      otherDeviceId: request.otherDeviceId,
+      isSelfVerification: request.isSelfVerification,
+      initiatedByMe: request.initiatedByMe,
+      stage: this.getStage(request),
+      emoji: this.sasCallbacks?.sas.emoji?.map(([symbol, name]) => ({ symbol, name })),
+      decimals: this.sasCallbacks?.sas.decimal,
+      qrCode: this.qrCode,
+      canScanQrCode: request.otherPartySupportsMethod(SHOW_QR_METHOD),
+      canUseSas: request.otherPartySupportsMethod(SAS_METHOD),
+      cancelReason: request.cancellationCode
+        ? CANCEL_REASONS[request.cancellationCode] ?? 'The verification was cancelled.'
+        : undefined,
+    } : null;
+
+    this.listeners.forEach(callback => callback(this.session));
+  }
+
+  private getStage(request: VerificationRequest): VerificationStage {
+    switch (request.phase) {
+      case VerificationPhase.Unsent:
+        return 'waiting';
+      case VerificationPhase.Requested:
+        return request.initiatedByMe ? 'waiting' : 'incoming';
+      case VerificationPhase.Ready:
+        return 'ready';
+      case VerificationPhase.Started:
+        if (this.sasCallbacks) return 'sas';
+        if (this.qrCallbacks) return 'confirm-scan';
+        return 'verifying';
+      case VerificationPhase.Cancelled:
+        return 'cancelled';
+      case VerificationPhase.Done:
+        return 'done';
+    }
+  }
+
+  private next(): void {
+    const pending = this.queue.filter(request => this.isActive(request));
+    this.queue = pending.slice(1);
+
+    if (pending.length > 0) {
+      this.track(pending[0]);
+    } else {
+      this.reset();
+      this.update();
+    }
+  }
+
+  private reset(): void {
+    this.request?.off(VerificationRequestEvent.Change, this.handleRequestChange);
+    this.request = null;
+    this.verifier = null;
+    this.sasCallbacks = null;
+    this.qrCallbacks = null;
+    this.qrCode = undefined;
+    this.session = null;
+  }
+}
+
+// Export singleton instance
+export const matrixVerificationService = new MatrixVerificationService();
@@ -1,2 +1,18 @@
 export { MatrixSessionBinder, type MatrixSession } from './MatrixSessionBinder';
 export { matrixSessionBinder } from './MatrixSessionBinder';
+export { MatrixMediaResolver, matrixMediaResolver, isMxcUrl, type MediaResolveOptions } from './MatrixMediaResolver';
+export {
+  MatrixVerificationService,
+  matrixVerificationService,
+  type VerificationDevice,
+  type VerificationSession,
+  type VerificationStage,
+} from './MatrixVerificationService';
+export { MatrixKeyBackupService, matrixKeyBackupService, type KeyRestoreProgress } from './MatrixKeyBackupService';
+export { MatrixDeviceService, matrixDeviceService } from './MatrixDeviceService';
+export {
+  performInteractiveAuth,
+  InteractiveAuthCancelledError,
+  type InteractiveAuthPrompt,
+  type InteractiveAuthStage,
+} from './MatrixInteractiveAuth';
@@ -0,0 +1,24 @@
+import * as React from "react"
+
+import { cn } from "./utils/ui-utils"
+
+export type TextareaProps = React.TextareaHTMLAttributes<HTMLTextAreaElement>
+
+const Textarea = React.forwardRef<HTMLTextAreaElement, TextareaProps>(
+  ({ className, ...props }, ref) => {
+    return (
+      <textarea
+        className={cn(
+          // Matches Input: no border, subtle focus ring; grows with its content up to max-h
+          "flex min-h-[30px] max-h-40 w-full resize-none rounded-md border-0 bg-background px-3 py-1 text-sm [field-sizing:content] placeholder:text-muted-foreground focus-visible:outline-none focus-ring-custom disabled:cursor-not-allowed disabled:opacity-50",
+          className
+        )}
+        ref={ref}
+        {...props}
+      />
+    )
+  }
+)
+Textarea.displayName = "Textarea"
+
+export { Textarea }